@@ -6,6 +6,14 @@
 
 import { ScoredGame, RecommendationBucket, GameId } from './types';
 
+/**
+ * Result of sponsored injection with the positions that were filled
+ */
+export interface SponsoredInjectionResult {
+  games: ScoredGame[];
+  slots: number[]; // Positions in games holding sponsored entries
+}
+
 /**
  * Sponsored content injector
  */
@@ -20,6 +28,16 @@ export class SponsoredInjector {
     diversifiedGames: ScoredGame[],
     sponsoredGames: ScoredGame[]
   ): ScoredGame[] {
+    return this.injectSponsoredWithSlots(diversifiedGames, sponsoredGames).games;
+  }
+
+  /**
+   * Inject sponsored games and report the slot positions used
+   */
+  injectSponsoredWithSlots(
+    diversifiedGames: ScoredGame[],
+    sponsoredGames: ScoredGame[]
+  ): SponsoredInjectionResult {
     // Filter to only eligible sponsored games not already in list
     const existingIds = new Set(diversifiedGames.map((sg) => sg.game.gameId));
     const eligibleSponsored = sponsoredGames
@@ -27,7 +45,7 @@ export class SponsoredInjector {
       .slice(0, this.maxSponsoredPerList);
 
     if (eligibleSponsored.length === 0) {
-      return diversifiedGames;
+      return { games: diversifiedGames, slots: [] };
     }
 
     // Define injection slots (e.g., positions 3, 7, 11)
@@ -37,18 +55,20 @@ export class SponsoredInjector {
     );
 
     const result: ScoredGame[] = [];
+    const usedSlots: number[] = [];
     let sponsoredIndex = 0;
     let organicIndex = 0;
 
     for (let i = 0; i < diversifiedGames.length + eligibleSponsored.length; i++) {
       if (slots.includes(i) && sponsoredIndex < eligibleSponsored.length) {
+        usedSlots.push(result.length);
         result.push(eligibleSponsored[sponsoredIndex++]);
       } else if (organicIndex < diversifiedGames.length) {
         result.push(diversifiedGames[organicIndex++]);
       }
     }
 
-    return result;
+    return { games: result, slots: usedSlots };
   }
 
   /**
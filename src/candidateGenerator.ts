@@ -18,6 +18,23 @@ export interface CandidateDataSource {
   getSponsoredGames(limit: number): Promise<Game[]>;
 }
 
+/**
+ * Per-source statistics from a candidate generation run
+ */
+export interface CandidateSourceStats {
+  source: string;
+  fetched: number; // Games returned by the source
+  added: number; // Games not already provided by an earlier source
+}
+
+/**
+ * Candidates together with where they came from
+ */
+export interface CandidateGenerationResult {
+  candidates: Game[];
+  sources: CandidateSourceStats[];
+}
+
 /**
  * Generate candidates from multiple sources
  */
@@ -32,48 +49,68 @@ export class CandidateGenerator {
    * Produces a large, safe pool of games before ranking
    */
   async generateCandidates(userContext: UserContext): Promise<Game[]> {
+    const result = await this.generateCandidatesWithSources(userContext);
+    return result.candidates;
+  }
+
+  /**
+   * Generate candidates and report how many each source contributed
+   */
+  async generateCandidatesWithSources(
+    userContext: UserContext
+  ): Promise<CandidateGenerationResult> {
     const candidateSet = new Map<GameId, Game>();
+    const sources: CandidateSourceStats[] = [];
 
     // Add genre-aligned games
     const genreGames = await this.dataSource.getTopGamesByGenres(
       userContext.genreVector,
       50
     );
-    this.addToCandidateSet(candidateSet, genreGames);
+    sources.push(this.addToCandidateSet(candidateSet, 'genre', genreGames));
 
     // Add age-band popular games
     const popularGames = await this.dataSource.getPopularGamesByAgeBand(
       userContext.ageBand,
       50
     );
-    this.addToCandidateSet(candidateSet, popularGames);
+    sources.push(this.addToCandidateSet(candidateSet, 'age_band_popular', popularGames));
 
     // Add trending games
     const trendingGames = await this.dataSource.getTrendingGames(30);
-    this.addToCandidateSet(candidateSet, trendingGames);
+    sources.push(this.addToCandidateSet(candidateSet, 'trending', trendingGames));
 
     // Add editorial picks
     const editorialGames = await this.dataSource.getEditorialPicks(20);
-    this.addToCandidateSet(candidateSet, editorialGames);
+    sources.push(this.addToCandidateSet(candidateSet, 'editorial', editorialGames));
 
     // Add sponsored games if enabled
     if (this.sponsoredEnabled) {
       const sponsoredGames = await this.dataSource.getSponsoredGames(15);
-      this.addToCandidateSet(candidateSet, sponsoredGames);
+      sources.push(this.addToCandidateSet(candidateSet, 'sponsored', sponsoredGames));
     }
 
-    return Array.from(candidateSet.values());
+    return { candidates: Array.from(candidateSet.values()), sources };
   }
 
   /**
    * Helper to add games to candidate set, avoiding duplicates
    */
-  private addToCandidateSet(candidateSet: Map<GameId, Game>, games: Game[]): void {
+  private addToCandidateSet(
+    candidateSet: Map<GameId, Game>,
+    source: string,
+    games: Game[]
+  ): CandidateSourceStats {
+    let added = 0;
+
     for (const game of games) {
       if (!candidateSet.has(game.gameId)) {
         candidateSet.set(game.gameId, game);
+        added++;
       }
     }
+
+    return { source, fetched: games.length, added };
   }
 
   /**
@@ -5,10 +5,33 @@
  * based on aggregated, privacy-safe data.
  */
 
-import { Game, AgeBand, Platform, ChartEntry, GenreId } from './types';
+import {
+  Game,
+  GameId,
+  AgeBand,
+  Platform,
+  ChartEntry,
+  ChartEntryFlag,
+  ChartKey,
+  ChartType,
+  ChartWindow,
+  GenreId,
+  GuardianPolicy,
+  RatingConfig,
+} from './types';
+import { EligibilityFilter } from './eligibilityFilter';
+import { MetricsLoader, MetricsLoaderOptions } from './chartMetrics';
+import { TrendingScorer, TrendingScorerOptions } from './trendingScorer';
+import { ChartSafetyHook, createDefaultChartSafetyHooks } from './chartSafety';
+import { DEFAULT_CONFIG } from './config';
+import { RatingCalculator, getDominantGenre } from './rating';
+import { systemClock } from './clock';
 
 /**
  * Data source for chart metrics
+ * Implement getGameMetricsBatch to avoid one round-trip per game, and
+ * getWindowedMetrics for windows other than 7 and 30 days or past as-of
+ * times; without it, windows are derived from GameMetrics
  */
 export interface ChartDataSource {
   getGameMetrics(
@@ -16,6 +39,18 @@ export interface ChartDataSource {
     ageBand: AgeBand,
     platform: Platform
   ): Promise<GameMetrics>;
+  getGameMetricsBatch?(
+    gameIds: GameId[],
+    ageBand: AgeBand,
+    platform: Platform
+  ): Promise<Map<GameId, GameMetrics>>;
+  getWindowedMetrics?(
+    gameIds: GameId[],
+    ageBand: AgeBand,
+    platform: Platform,
+    window: ChartWindow,
+    asOf: Date // End of the window
+  ): Promise<Map<GameId, WindowedMetrics>>;
   fetchGamesByAgeAndPlatform(
     ageBand: AgeBand,
     platform: Platform
@@ -26,8 +61,11 @@ export interface ChartDataSource {
  * Game metrics for chart calculations
  */
 export interface GameMetrics {
+  /** @deprecated Use getWindowedMetrics with CHART_WINDOWS.LAST_7D */
   playsLast7Days: number;
+  /** @deprecated Use WindowedMetrics.previousPlays */
   playsPrev7Days: number;
+  /** @deprecated Use getWindowedMetrics with CHART_WINDOWS.LAST_30D */
   playsLast30Days: number;
   totalSessions: number;
   uniquePlayers: number;
@@ -37,62 +75,383 @@ export interface GameMetrics {
   dislikes: number;
   favourites: number;
   totalPlays: number;
+  playsByPlatform?: Map<Platform, number>; // Plays in the last 30 days, per platform
+}
+
+/**
+ * Activity counts within a time window ending at the as-of time
+ */
+export interface WindowedMetrics {
+  plays: number;
+  previousPlays: number; // Plays in the equally long window just before
+  historicalPlays?: number[]; // Plays in older windows of the same length, oldest first
+  sessions: number;
+  uniquePlayers: number;
+  revenue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Standard chart windows
+ */
+export const CHART_WINDOWS = {
+  LAST_24H: { id: '24h', durationMs: DAY_MS },
+  LAST_7D: { id: '7d', durationMs: 7 * DAY_MS },
+  LAST_30D: { id: '30d', durationMs: 30 * DAY_MS },
+} satisfies Record<string, ChartWindow>;
+
+/**
+ * Create a custom window of a whole number of days
+ */
+export function createChartWindow(days: number): ChartWindow {
+  return { id: `${days}d`, durationMs: days * DAY_MS };
+}
+
+/**
+ * Window each chart type uses when the chart key does not set one
+ * Chart types that are not windowed are absent
+ */
+const DEFAULT_CHART_WINDOWS: Partial<Record<ChartType, ChartWindow>> = {
+  [ChartType.TOP_TRENDING]: CHART_WINDOWS.LAST_7D,
+  [ChartType.TRENDING_IN_GENRE]: CHART_WINDOWS.LAST_7D,
+  [ChartType.UP_AND_COMING]: CHART_WINDOWS.LAST_30D,
+  [ChartType.TOP_REPLAYED]: CHART_WINDOWS.LAST_30D,
+  [ChartType.TOP_EARNING]: CHART_WINDOWS.LAST_30D,
+};
+
+/**
+ * Options for chart generation
+ */
+export interface ChartGeneratorOptions extends MetricsLoaderOptions {
+  minPlatformPlays: number; // Volume floor for the platform chart
+  trending: Partial<TrendingScorerOptions>;
+  safetyHooks: ChartSafetyHook[]; // Stricter policies for specific age bands
+  rating: RatingConfig; // Estimator for the Top Rated chart
+}
+
+const DEFAULT_MIN_PLATFORM_PLAYS = 100;
+
+/**
+ * Candidate games and their metrics for one age band and platform
+ * Shared by every chart computed from the same fetch; metrics are loaded
+ * when the first chart needing them is computed
+ */
+interface ChartSnapshot {
+  ageBand: AgeBand;
+  platform: Platform;
+  asOf: Date;
+  games: Game[];
+  metrics?: Map<GameId, GameMetrics>; // Only charts that are not windowed need them
+  windowed: Map<string, Map<GameId, WindowedMetrics>>; // Keyed by window ID
 }
 
 /**
  * Chart generator for algorithmic rankings
  */
 export class ChartGenerator {
-  constructor(private dataSource: ChartDataSource) {}
+  private metricsLoader: MetricsLoader;
+  private minPlatformPlays: number;
+  private trendingScorer: TrendingScorer;
+  private safetyHooks: ChartSafetyHook[];
+  private ratingCalculator: RatingCalculator;
+
+  constructor(
+    private dataSource: ChartDataSource,
+    private eligibilityFilter: EligibilityFilter,
+    options: Partial<ChartGeneratorOptions> = {}
+  ) {
+    this.metricsLoader = new MetricsLoader(dataSource, options);
+    this.minPlatformPlays = options.minPlatformPlays ?? DEFAULT_MIN_PLATFORM_PLAYS;
+    this.trendingScorer = new TrendingScorer(options.trending);
+    this.safetyHooks =
+      options.safetyHooks ?? createDefaultChartSafetyHooks(DEFAULT_CONFIG);
+    this.ratingCalculator = new RatingCalculator(
+      options.rating ?? DEFAULT_CONFIG.rating
+    );
+  }
 
   /**
-   * Generate Top Trending chart
-   * Games with fastest recent growth
+   * Fetch chart candidates and apply the same eligibility rules as
+   * recommendations for the chart's age band and platform, plus any
+   * guardian policy and the safety hooks registered for the age band
+   * Charts are only as safe as this filter, never the data source
    */
-  async generateTopTrending(
+  private async fetchPlayableGames(
     ageBand: AgeBand,
     platform: Platform,
-    limit: number = 50
-  ): Promise<ChartEntry[]> {
-    const candidates = await this.dataSource.fetchGamesByAgeAndPlatform(
+    asOf: Date,
+    guardianPolicy?: GuardianPolicy
+  ): Promise<Game[]> {
+    const games = await this.dataSource.fetchGamesByAgeAndPlatform(
       ageBand,
       platform
     );
-    const chartList: ChartEntry[] = [];
 
-    for (const game of candidates) {
-      const metrics = await this.dataSource.getGameMetrics(
-        game.gameId,
-        ageBand,
-        platform
+    const eligible = this.eligibilityFilter.filterEligible(
+      games,
+      { ageBand, platform },
+      guardianPolicy,
+      asOf
+    );
+
+    const hooks = this.safetyHooks.filter((hook) => hook.ageBands.includes(ageBand));
+
+    return eligible.filter((game) => hooks.every((hook) => hook.passes(game, asOf)));
+  }
+
+  /**
+   * Fetch candidates; their metrics are loaded on demand
+   */
+  private async loadSnapshot(
+    ageBand: AgeBand,
+    platform: Platform,
+    asOf: Date,
+    guardianPolicy?: GuardianPolicy
+  ): Promise<ChartSnapshot> {
+    const games = await this.fetchPlayableGames(
+      ageBand,
+      platform,
+      asOf,
+      guardianPolicy
+    );
+
+    return { ageBand, platform, asOf, games, windowed: new Map() };
+  }
+
+  /**
+   * Full metrics for a snapshot, loaded once in batches
+   */
+  private async loadMetrics(snapshot: ChartSnapshot): Promise<Map<GameId, GameMetrics>> {
+    if (!snapshot.metrics) {
+      snapshot.metrics = await this.metricsLoader.load(
+        snapshot.games.map((game) => game.gameId),
+        snapshot.ageBand,
+        snapshot.platform
       );
+    }
+
+    return snapshot.metrics;
+  }
+
+  /**
+   * Windowed metrics for a snapshot, loaded once per window
+   */
+  private async loadWindowedMetrics(
+    snapshot: ChartSnapshot,
+    window: ChartWindow
+  ): Promise<Map<GameId, WindowedMetrics>> {
+    const cached = snapshot.windowed.get(window.id);
+    if (cached) {
+      return cached;
+    }
 
-      let score: number;
-      if (metrics.playsPrev7Days === 0) {
-        score = metrics.playsLast7Days;
-      } else {
-        score =
-          (metrics.playsLast7Days - metrics.playsPrev7Days) /
-          metrics.playsPrev7Days;
+    const windowed = await this.metricsLoader.loadWindowed(
+      snapshot.games.map((game) => game.gameId),
+      snapshot.ageBand,
+      snapshot.platform,
+      window,
+      snapshot.asOf
+    );
+    snapshot.windowed.set(window.id, windowed);
+
+    return windowed;
+  }
+
+  /**
+   * Window a chart is computed over, or undefined if it is not windowed
+   */
+  private resolveWindow(key: ChartKey): ChartWindow | undefined {
+    const defaultWindow = DEFAULT_CHART_WINDOWS[key.chartType];
+    return defaultWindow ? key.window ?? defaultWindow : undefined;
+  }
+
+  /**
+   * Generate the chart identified by key, as of the given time
+   */
+  async generateChart(
+    key: ChartKey,
+    limit: number = 50,
+    guardianPolicy?: GuardianPolicy,
+    asOf: Date = systemClock.now()
+  ): Promise<ChartEntry[]> {
+    const [entries] = await this.generateCharts([key], limit, guardianPolicy, asOf);
+    return entries;
+  }
+
+  /**
+   * Generate several charts, results in the same order as keys
+   * Metrics are loaded once per age band and platform, however many
+   * chart types are requested for it, and only the kinds those types use
+   */
+  async generateCharts(
+    keys: ChartKey[],
+    limit: number = 50,
+    guardianPolicy?: GuardianPolicy,
+    asOf: Date = systemClock.now()
+  ): Promise<ChartEntry[][]> {
+    const snapshots = new Map<string, Promise<ChartSnapshot>>();
+    const results: ChartEntry[][] = [];
+
+    for (const key of keys) {
+      const snapshotKey = `${key.ageBand}:${key.platform}`;
+      if (!snapshots.has(snapshotKey)) {
+        snapshots.set(
+          snapshotKey,
+          this.loadSnapshot(key.ageBand, key.platform, asOf, guardianPolicy)
+        );
       }
 
-      chartList.push({
-        gameId: game.gameId,
-        score,
-        rank: 0, // Will be set after sorting
-      });
+      const snapshot = await snapshots.get(snapshotKey)!;
+      const window = this.resolveWindow(key);
+
+      results.push(
+        window
+          ? this.computeWindowedChart(
+              key,
+              snapshot,
+              await this.loadWindowedMetrics(snapshot, window),
+              window,
+              limit
+            )
+          : this.computeChart(key, snapshot, await this.loadMetrics(snapshot), limit)
+      );
     }
 
-    // Sort by score descending
+    return results;
+  }
+
+  /**
+   * Rank a snapshot for a chart computed over a window
+   */
+  private computeWindowedChart(
+    key: ChartKey,
+    snapshot: ChartSnapshot,
+    windowed: Map<GameId, WindowedMetrics>,
+    window: ChartWindow,
+    limit: number
+  ): ChartEntry[] {
+    switch (key.chartType) {
+      case ChartType.TOP_TRENDING:
+        return this.computeTopTrending(snapshot.games, windowed, limit);
+
+      case ChartType.UP_AND_COMING:
+        return this.computeUpAndComing(snapshot, windowed, window, limit);
+
+      case ChartType.TOP_REPLAYED:
+        return this.computeTopReplayed(snapshot.games, windowed, limit);
+
+      case ChartType.TOP_EARNING:
+        return this.computeTopEarning(snapshot.games, windowed, limit);
+
+      case ChartType.TRENDING_IN_GENRE:
+        if (!key.genreId) {
+          throw new Error('genreId is required for TRENDING_IN_GENRE chart');
+        }
+        return this.computeTrendingInGenre(
+          key.genreId,
+          snapshot.games,
+          windowed,
+          limit
+        );
+
+      default:
+        throw new Error(`Chart type is not windowed: ${key.chartType}`);
+    }
+  }
+
+  /**
+   * Rank a snapshot for a chart computed from full metrics
+   */
+  private computeChart(
+    key: ChartKey,
+    snapshot: ChartSnapshot,
+    metrics: Map<GameId, GameMetrics>,
+    limit: number
+  ): ChartEntry[] {
+    switch (key.chartType) {
+      case ChartType.TOP_PLAYING_NOW:
+        return this.computeTopPlayingNow(snapshot.games, metrics, limit);
+
+      case ChartType.TOP_RATED:
+        return this.computeTopRated(snapshot, metrics, limit);
+
+      case ChartType.TOP_ON_PLATFORM:
+        return this.computeTopOnPlatform(key.platform, snapshot.games, metrics, limit);
+
+      default:
+        throw new Error(`Unknown chart type: ${key.chartType}`);
+    }
+  }
+
+  /**
+   * Sort by score descending, keep the top N and assign ranks
+   */
+  private rankEntries(chartList: ChartEntry[], limit: number): ChartEntry[] {
     chartList.sort((a, b) => b.score - a.score);
 
-    // Assign ranks and return top N
     return chartList.slice(0, limit).map((entry, index) => ({
       ...entry,
       rank: index + 1,
     }));
   }
 
+  /**
+   * Generate Top Trending chart
+   * Games with fastest recent growth
+   */
+  async generateTopTrending(
+    ageBand: AgeBand,
+    platform: Platform,
+    limit: number = 50,
+    guardianPolicy?: GuardianPolicy,
+    window?: ChartWindow
+  ): Promise<ChartEntry[]> {
+    return this.generateChart(
+      { chartType: ChartType.TOP_TRENDING, ageBand, platform, window },
+      limit,
+      guardianPolicy
+    );
+  }
+
+  /**
+   * Rank games for the Top Trending chart
+   * Smoothed growth of plays in the window over the window before it;
+   * games with too few players are left out and spikes are flagged
+   */
+  private computeTopTrending(
+    games: Game[],
+    windowed: Map<GameId, WindowedMetrics>,
+    limit: number
+  ): ChartEntry[] {
+    const chartList: ChartEntry[] = [];
+
+    for (const game of games) {
+      const metrics = windowed.get(game.gameId);
+      if (!metrics) {
+        continue;
+      }
+
+      const trending = this.trendingScorer.score(metrics);
+      if (!trending) {
+        continue;
+      }
+
+      const entry: ChartEntry = {
+        gameId: game.gameId,
+        score: trending.score,
+        rank: 0, // Will be set after sorting
+      };
+      if (trending.damped) {
+        entry.flags = [ChartEntryFlag.SPIKE_DAMPED];
+      }
+
+      chartList.push(entry);
+    }
+
+    return this.rankEntries(chartList, limit);
+  }
+
   /**
    * Generate Up & Coming chart
    * New games gaining traction
@@ -100,35 +459,45 @@ export class ChartGenerator {
   async generateUpAndComing(
     ageBand: AgeBand,
     platform: Platform,
-    limit: number = 50
+    limit: number = 50,
+    guardianPolicy?: GuardianPolicy,
+    window?: ChartWindow
   ): Promise<ChartEntry[]> {
-    const candidates = await this.dataSource.fetchGamesByAgeAndPlatform(
-      ageBand,
-      platform
+    return this.generateChart(
+      { chartType: ChartType.UP_AND_COMING, ageBand, platform, window },
+      limit,
+      guardianPolicy
     );
-    const chartList: ChartEntry[] = [];
+  }
 
-    const now = new Date();
+  /**
+   * Rank games for the Up & Coming chart
+   * Only games released within the window are eligible
+   */
+  private computeUpAndComing(
+    snapshot: ChartSnapshot,
+    windowed: Map<GameId, WindowedMetrics>,
+    window: ChartWindow,
+    limit: number
+  ): ChartEntry[] {
+    const chartList: ChartEntry[] = [];
 
-    for (const game of candidates) {
-      // Only include games released in last 30 days
-      const daysSinceRelease = Math.floor(
-        (now.getTime() - game.releaseDate.getTime()) / (1000 * 60 * 60 * 24)
-      );
+    for (const game of snapshot.games) {
+      // Only include games released within the window
+      const msSinceRelease = snapshot.asOf.getTime() - game.releaseDate.getTime();
 
-      if (daysSinceRelease > 30) {
+      if (msSinceRelease > window.durationMs) {
         continue;
       }
 
-      const metrics = await this.dataSource.getGameMetrics(
-        game.gameId,
-        ageBand,
-        platform
-      );
+      const metrics = windowed.get(game.gameId);
+      if (!metrics) {
+        continue;
+      }
 
       // Weighted combination of recency + engagement growth
-      const recencyWeight = 1 - daysSinceRelease / 30;
-      const engagementScore = Math.log(1 + metrics.playsLast30Days);
+      const recencyWeight = 1 - Math.max(0, msSinceRelease) / window.durationMs;
+      const engagementScore = Math.log(1 + metrics.plays);
       const score = recencyWeight * 0.4 + engagementScore * 0.6;
 
       chartList.push({
@@ -138,12 +507,7 @@ export class ChartGenerator {
       });
     }
 
-    chartList.sort((a, b) => b.score - a.score);
-
-    return chartList.slice(0, limit).map((entry, index) => ({
-      ...entry,
-      rank: index + 1,
-    }));
+    return this.rankEntries(chartList, limit);
   }
 
   /**
@@ -153,20 +517,31 @@ export class ChartGenerator {
   async generateTopPlayingNow(
     ageBand: AgeBand,
     platform: Platform,
-    limit: number = 50
+    limit: number = 50,
+    guardianPolicy?: GuardianPolicy
   ): Promise<ChartEntry[]> {
-    const candidates = await this.dataSource.fetchGamesByAgeAndPlatform(
-      ageBand,
-      platform
+    return this.generateChart(
+      { chartType: ChartType.TOP_PLAYING_NOW, ageBand, platform },
+      limit,
+      guardianPolicy
     );
+  }
+
+  /**
+   * Rank a snapshot for the Top Playing Now chart
+   */
+  private computeTopPlayingNow(
+    games: Game[],
+    gameMetrics: Map<GameId, GameMetrics>,
+    limit: number
+  ): ChartEntry[] {
     const chartList: ChartEntry[] = [];
 
-    for (const game of candidates) {
-      const metrics = await this.dataSource.getGameMetrics(
-        game.gameId,
-        ageBand,
-        platform
-      );
+    for (const game of games) {
+      const metrics = gameMetrics.get(game.gameId);
+      if (!metrics) {
+        continue;
+      }
 
       chartList.push({
         gameId: game.gameId,
@@ -175,12 +550,7 @@ export class ChartGenerator {
       });
     }
 
-    chartList.sort((a, b) => b.score - a.score);
-
-    return chartList.slice(0, limit).map((entry, index) => ({
-      ...entry,
-      rank: index + 1,
-    }));
+    return this.rankEntries(chartList, limit);
   }
 
   /**
@@ -190,26 +560,35 @@ export class ChartGenerator {
   async generateTopReplayed(
     ageBand: AgeBand,
     platform: Platform,
-    limit: number = 50
+    limit: number = 50,
+    guardianPolicy?: GuardianPolicy,
+    window?: ChartWindow
   ): Promise<ChartEntry[]> {
-    const candidates = await this.dataSource.fetchGamesByAgeAndPlatform(
-      ageBand,
-      platform
+    return this.generateChart(
+      { chartType: ChartType.TOP_REPLAYED, ageBand, platform, window },
+      limit,
+      guardianPolicy
     );
-    const chartList: ChartEntry[] = [];
+  }
 
-    for (const game of candidates) {
-      const metrics = await this.dataSource.getGameMetrics(
-        game.gameId,
-        ageBand,
-        platform
-      );
+  /**
+   * Rank games for the Top Re-Played chart
+   * Sessions per player within the window
+   */
+  private computeTopReplayed(
+    games: Game[],
+    windowed: Map<GameId, WindowedMetrics>,
+    limit: number
+  ): ChartEntry[] {
+    const chartList: ChartEntry[] = [];
 
-      if (metrics.uniquePlayers === 0) {
+    for (const game of games) {
+      const metrics = windowed.get(game.gameId);
+      if (!metrics || metrics.uniquePlayers === 0) {
         continue;
       }
 
-      const replayRate = metrics.totalSessions / metrics.uniquePlayers;
+      const replayRate = metrics.sessions / metrics.uniquePlayers;
 
       chartList.push({
         gameId: game.gameId,
@@ -218,12 +597,7 @@ export class ChartGenerator {
       });
     }
 
-    chartList.sort((a, b) => b.score - a.score);
-
-    return chartList.slice(0, limit).map((entry, index) => ({
-      ...entry,
-      rank: index + 1,
-    }));
+    return this.rankEntries(chartList, limit);
   }
 
   /**
@@ -233,34 +607,42 @@ export class ChartGenerator {
   async generateTopEarning(
     ageBand: AgeBand,
     platform: Platform,
-    limit: number = 50
+    limit: number = 50,
+    guardianPolicy?: GuardianPolicy,
+    window?: ChartWindow
   ): Promise<ChartEntry[]> {
-    const candidates = await this.dataSource.fetchGamesByAgeAndPlatform(
-      ageBand,
-      platform
+    return this.generateChart(
+      { chartType: ChartType.TOP_EARNING, ageBand, platform, window },
+      limit,
+      guardianPolicy
     );
+  }
+
+  /**
+   * Rank games for the Top Earning chart
+   * Revenue within the window, not lifetime revenue
+   */
+  private computeTopEarning(
+    games: Game[],
+    windowed: Map<GameId, WindowedMetrics>,
+    limit: number
+  ): ChartEntry[] {
     const chartList: ChartEntry[] = [];
 
-    for (const game of candidates) {
-      const metrics = await this.dataSource.getGameMetrics(
-        game.gameId,
-        ageBand,
-        platform
-      );
+    for (const game of games) {
+      const metrics = windowed.get(game.gameId);
+      if (!metrics) {
+        continue;
+      }
 
       chartList.push({
         gameId: game.gameId,
-        score: metrics.totalRevenue,
+        score: metrics.revenue,
         rank: 0,
       });
     }
 
-    chartList.sort((a, b) => b.score - a.score);
-
-    return chartList.slice(0, limit).map((entry, index) => ({
-      ...entry,
-      rank: index + 1,
-    }));
+    return this.rankEntries(chartList, limit);
   }
 
   /**
@@ -270,30 +652,42 @@ export class ChartGenerator {
   async generateTopRated(
     ageBand: AgeBand,
     platform: Platform,
-    limit: number = 50
+    limit: number = 50,
+    guardianPolicy?: GuardianPolicy
   ): Promise<ChartEntry[]> {
-    const candidates = await this.dataSource.fetchGamesByAgeAndPlatform(
-      ageBand,
-      platform
+    return this.generateChart(
+      { chartType: ChartType.TOP_RATED, ageBand, platform },
+      limit,
+      guardianPolicy
     );
+  }
+
+  /**
+   * Rank a snapshot for the Top Rated chart
+   * Uses the same rating estimator as community rating scoring
+   */
+  private computeTopRated(
+    snapshot: ChartSnapshot,
+    gameMetrics: Map<GameId, GameMetrics>,
+    limit: number
+  ): ChartEntry[] {
     const chartList: ChartEntry[] = [];
 
-    for (const game of candidates) {
-      const metrics = await this.dataSource.getGameMetrics(
-        game.gameId,
-        ageBand,
-        platform
-      );
+    for (const game of snapshot.games) {
+      const metrics = gameMetrics.get(game.gameId);
+      if (!metrics) {
+        continue;
+      }
 
       const totalReactions = metrics.likes + metrics.dislikes;
       if (totalReactions === 0) {
         continue;
       }
 
-      // Community rating: (likes - dislikes) / total, weighted by volume
-      const ratio = (metrics.likes - metrics.dislikes) / totalReactions;
-      const confidence = Math.min(1, Math.log(1 + totalReactions) / Math.log(1000));
-      const ratingScore = ratio * confidence;
+      const ratingScore = this.ratingCalculator.rate(metrics, {
+        genreId: getDominantGenre(game),
+        ageBand: snapshot.ageBand,
+      });
 
       chartList.push({
         gameId: game.gameId,
@@ -302,12 +696,7 @@ export class ChartGenerator {
       });
     }
 
-    chartList.sort((a, b) => b.score - a.score);
-
-    return chartList.slice(0, limit).map((entry, index) => ({
-      ...entry,
-      rank: index + 1,
-    }));
+    return this.rankEntries(chartList, limit);
   }
 
   /**
@@ -318,48 +707,89 @@ export class ChartGenerator {
     genreId: GenreId,
     ageBand: AgeBand,
     platform: Platform,
-    limit: number = 50
+    limit: number = 50,
+    guardianPolicy?: GuardianPolicy,
+    window?: ChartWindow
   ): Promise<ChartEntry[]> {
-    const allCandidates = await this.dataSource.fetchGamesByAgeAndPlatform(
-      ageBand,
-      platform
+    return this.generateChart(
+      {
+        chartType: ChartType.TRENDING_IN_GENRE,
+        genreId,
+        ageBand,
+        platform,
+        window,
+      },
+      limit,
+      guardianPolicy
     );
+  }
 
+  /**
+   * Rank games for the Trending in Genre chart
+   */
+  private computeTrendingInGenre(
+    genreId: GenreId,
+    games: Game[],
+    windowed: Map<GameId, WindowedMetrics>,
+    limit: number
+  ): ChartEntry[] {
     // Filter by genre
-    const candidates = allCandidates.filter((game) =>
-      game.genreVector.has(genreId)
+    const candidates = games.filter((game) => game.genreVector.has(genreId));
+
+    return this.computeTopTrending(candidates, windowed, limit);
+  }
+
+  /**
+   * Generate Top on Platform chart
+   * Best games for a platform (VR, mobile, etc.), ranked by plays on it
+   */
+  async generateTopOnPlatform(
+    ageBand: AgeBand,
+    platform: Platform,
+    limit: number = 50,
+    guardianPolicy?: GuardianPolicy
+  ): Promise<ChartEntry[]> {
+    return this.generateChart(
+      { chartType: ChartType.TOP_ON_PLATFORM, ageBand, platform },
+      limit,
+      guardianPolicy
     );
+  }
 
+  /**
+   * Rank a snapshot for the Top on Platform chart
+   * Games below the volume floor are left out so a handful of plays
+   * cannot top a small platform. Without playsByPlatform, the 30-day plays
+   * reported for the chart's platform are used.
+   */
+  private computeTopOnPlatform(
+    platform: Platform,
+    games: Game[],
+    gameMetrics: Map<GameId, GameMetrics>,
+    limit: number
+  ): ChartEntry[] {
     const chartList: ChartEntry[] = [];
 
-    for (const game of candidates) {
-      const metrics = await this.dataSource.getGameMetrics(
-        game.gameId,
-        ageBand,
-        platform
-      );
+    for (const game of games) {
+      const metrics = gameMetrics.get(game.gameId);
+      if (!metrics) {
+        continue;
+      }
 
-      let score: number;
-      if (metrics.playsPrev7Days === 0) {
-        score = metrics.playsLast7Days;
-      } else {
-        score =
-          (metrics.playsLast7Days - metrics.playsPrev7Days) /
-          metrics.playsPrev7Days;
+      const platformPlays = metrics.playsByPlatform
+        ? metrics.playsByPlatform.get(platform) || 0
+        : metrics.playsLast30Days;
+      if (platformPlays < this.minPlatformPlays) {
+        continue;
       }
 
       chartList.push({
         gameId: game.gameId,
-        score,
+        score: platformPlays,
         rank: 0,
       });
     }
 
-    chartList.sort((a, b) => b.score - a.score);
-
-    return chartList.slice(0, limit).map((entry, index) => ({
-      ...entry,
-      rank: index + 1,
-    }));
+    return this.rankEntries(chartList, limit);
   }
 }
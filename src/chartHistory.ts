@@ -0,0 +1,246 @@
+/**
+ * Chart History Module
+ *
+ * Persists a snapshot of each chart per period and derives movement
+ * indicators (▲3, NEW, weeks on chart) from the previous period. Periods
+ * are fixed calendar intervals, independent of how often charts refresh:
+ * refreshes within a period replace its snapshot rather than adding one.
+ */
+
+import { ChartEntry, ChartKey, ChartMovement, GameId } from './types';
+import { toChartStorageKey } from './chartStore';
+import { systemClock } from './clock';
+
+/**
+ * Chart result recorded for one period
+ */
+export interface ChartHistorySnapshot {
+  key: ChartKey;
+  entries: ChartEntry[]; // Entries with movement, in rank order
+  periodStart: Date; // Start of the period this snapshot stands for
+  recordedAt: Date; // Latest refresh within the period
+}
+
+/**
+ * Storage backend for chart snapshots, one per chart and period
+ * Peak ranks are kept for every game that has ever charted, so re-entries
+ * can be detected without scanning old snapshots. Reads take a period
+ * start and only see earlier periods.
+ */
+export interface ChartHistoryStore {
+  getLatest(key: ChartKey, before: Date): Promise<ChartHistorySnapshot | undefined>;
+  getPeakRanks(
+    key: ChartKey,
+    gameIds: GameId[],
+    before: Date
+  ): Promise<Map<GameId, number>>;
+  save(snapshot: ChartHistorySnapshot): Promise<void>; // Replaces the snapshot for the same period
+}
+
+/**
+ * In-memory history store, suitable for a single process
+ * Peaks of every period but the latest are folded into one map; the
+ * latest period can still be replaced, so it is folded once superseded
+ */
+export class InMemoryChartHistoryStore implements ChartHistoryStore {
+  private snapshots = new Map<string, ChartHistorySnapshot[]>();
+  private peakRanks = new Map<string, Map<GameId, number>>();
+
+  async getLatest(
+    key: ChartKey,
+    before: Date
+  ): Promise<ChartHistorySnapshot | undefined> {
+    const snapshots = this.snapshots.get(toChartStorageKey(key)) ?? [];
+
+    for (let i = snapshots.length - 1; i >= 0; i--) {
+      if (snapshots[i].periodStart.getTime() < before.getTime()) {
+        return snapshots[i];
+      }
+    }
+
+    return undefined;
+  }
+
+  async getPeakRanks(
+    key: ChartKey,
+    gameIds: GameId[],
+    before: Date
+  ): Promise<Map<GameId, number>> {
+    const storageKey = toChartStorageKey(key);
+    const peaks = new Map(this.peakRanks.get(storageKey) ?? []);
+    const latest = this.snapshots.get(storageKey)?.slice(-1)[0];
+
+    if (latest && latest.periodStart.getTime() < before.getTime()) {
+      this.foldPeaks(peaks, latest);
+    }
+
+    const result = new Map<GameId, number>();
+    for (const gameId of gameIds) {
+      const peak = peaks.get(gameId);
+      if (peak !== undefined) {
+        result.set(gameId, peak);
+      }
+    }
+
+    return result;
+  }
+
+  async save(snapshot: ChartHistorySnapshot): Promise<void> {
+    const storageKey = toChartStorageKey(snapshot.key);
+
+    if (!this.snapshots.has(storageKey)) {
+      this.snapshots.set(storageKey, []);
+      this.peakRanks.set(storageKey, new Map());
+    }
+    const snapshots = this.snapshots.get(storageKey)!;
+    const latest = snapshots[snapshots.length - 1];
+
+    if (latest && latest.periodStart.getTime() === snapshot.periodStart.getTime()) {
+      snapshots[snapshots.length - 1] = snapshot;
+      return;
+    }
+
+    if (latest) {
+      this.foldPeaks(this.peakRanks.get(storageKey)!, latest);
+    }
+    snapshots.push(snapshot);
+  }
+
+  /**
+   * All snapshots for a chart, oldest first
+   */
+  getSnapshots(key: ChartKey): ChartHistorySnapshot[] {
+    return [...(this.snapshots.get(toChartStorageKey(key)) ?? [])];
+  }
+
+  private foldPeaks(peaks: Map<GameId, number>, snapshot: ChartHistorySnapshot): void {
+    for (const entry of snapshot.entries) {
+      const peak = peaks.get(entry.gameId) ?? entry.rank;
+      peaks.set(entry.gameId, Math.min(peak, entry.rank));
+    }
+  }
+}
+
+/**
+ * Options for chart history
+ */
+export interface ChartHistoryOptions {
+  periodMs: number; // Length of a chart period
+  periodOrigin: Date; // Any period start; periods repeat every periodMs from here
+}
+
+const DEFAULT_CHART_HISTORY_OPTIONS: ChartHistoryOptions = {
+  periodMs: 7 * 24 * 60 * 60 * 1000, // Weekly
+  periodOrigin: new Date('1970-01-05T00:00:00Z'), // A Monday, so weeks start on Monday (UTC)
+};
+
+/**
+ * Computes movement against the previous period and records periods
+ */
+export class ChartHistoryTracker {
+  private options: ChartHistoryOptions;
+
+  constructor(
+    private store: ChartHistoryStore,
+    options: Partial<ChartHistoryOptions> = {}
+  ) {
+    this.options = {
+      periodMs: options.periodMs ?? DEFAULT_CHART_HISTORY_OPTIONS.periodMs,
+      periodOrigin: options.periodOrigin ?? DEFAULT_CHART_HISTORY_OPTIONS.periodOrigin,
+    };
+  }
+
+  /**
+   * Record entries as the chart for the period containing recordedAt and
+   * return them with movement
+   * Safe to call on every refresh (e.g. from the precompute job): later
+   * calls in the same period replace the period's snapshot
+   */
+  async record(
+    key: ChartKey,
+    entries: ChartEntry[],
+    recordedAt: Date = systemClock.now()
+  ): Promise<ChartEntry[]> {
+    const periodStart = this.getPeriodStart(recordedAt);
+    const annotated = await this.annotate(key, entries, recordedAt);
+    await this.store.save({ key, entries: annotated, periodStart, recordedAt });
+
+    return annotated;
+  }
+
+  /**
+   * Add movement relative to the period before the one containing asOf,
+   * without recording
+   * If that period was never recorded (e.g. the job skipped it), every game
+   * counts as a new entry or re-entry and its run on the chart restarts
+   */
+  async annotate(
+    key: ChartKey,
+    entries: ChartEntry[],
+    asOf: Date = systemClock.now()
+  ): Promise<ChartEntry[]> {
+    const periodStart = this.getPeriodStart(asOf);
+    const previous = await this.store.getLatest(key, periodStart);
+    const isConsecutive =
+      previous?.periodStart.getTime() === periodStart.getTime() - this.options.periodMs;
+    const previousById = new Map(
+      (isConsecutive ? previous!.entries : []).map((entry) => [entry.gameId, entry])
+    );
+    const peakRanks = await this.store.getPeakRanks(
+      key,
+      entries.map((entry) => entry.gameId),
+      periodStart
+    );
+
+    return entries.map((entry) => ({
+      ...entry,
+      movement: this.computeMovement(
+        entry,
+        previousById.get(entry.gameId),
+        peakRanks.get(entry.gameId)
+      ),
+    }));
+  }
+
+  /**
+   * Start of the period containing a time
+   */
+  getPeriodStart(time: Date): Date {
+    const origin = this.options.periodOrigin.getTime();
+    const periods = Math.floor((time.getTime() - origin) / this.options.periodMs);
+
+    return new Date(origin + periods * this.options.periodMs);
+  }
+
+  /**
+   * Movement for one entry
+   * A game absent last period is a re-entry if it has a recorded peak
+   */
+  private computeMovement(
+    entry: ChartEntry,
+    previous: ChartEntry | undefined,
+    recordedPeak: number | undefined
+  ): ChartMovement {
+    const peakRank = Math.min(recordedPeak ?? entry.rank, entry.rank);
+
+    if (previous) {
+      return {
+        previousRank: previous.rank,
+        rankDelta: previous.rank - entry.rank,
+        isNewEntry: false,
+        isReEntry: false,
+        peakRank,
+        periodsOnChart: (previous.movement?.periodsOnChart ?? 1) + 1,
+      };
+    }
+
+    return {
+      previousRank: null,
+      rankDelta: null,
+      isNewEntry: recordedPeak === undefined,
+      isReEntry: recordedPeak !== undefined,
+      peakRank,
+      periodsOnChart: 1,
+    };
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Chart Hydration Module
+ *
+ * Resolves chart entries back to games so chart-backed buckets
+ * (e.g. New & Trending) go through the same safety and scoring stages
+ * as personalised recommendations.
+ */
+
+import {
+  ChartEntry,
+  UserContext,
+  UserHistory,
+  GuardianPolicy,
+  ScoredGame,
+} from './types';
+import { GameCatalog, GameLookup } from './gameCatalog';
+import { EligibilityFilter } from './eligibilityFilter';
+import { ScoringEngine } from './scoringEngine';
+import { createEmptyBreakdown } from './scoringSignals';
+import { systemClock } from './clock';
+
+/**
+ * Options for hydrating a chart
+ */
+export interface HydrationOptions {
+  guardianPolicy?: GuardianPolicy;
+  userHistory?: UserHistory; // When set, games are re-ranked by personal score
+  asOf?: Date; // Time eligibility and scoring are evaluated at
+}
+
+/**
+ * Turns chart entries into eligible scored games for a user
+ */
+export class ChartHydrator {
+  constructor(
+    private gameCatalog: GameCatalog,
+    private eligibilityFilter: EligibilityFilter,
+    private scoringEngine: ScoringEngine
+  ) {}
+
+  /**
+   * Hydrate chart entries for a user
+   * Unknown and ineligible games are dropped; chart order is kept unless
+   * a user history is given for personal scoring
+   */
+  async hydrate(
+    entries: ChartEntry[],
+    userContext: UserContext,
+    options: HydrationOptions = {}
+  ): Promise<ScoredGame[]> {
+    const gameIds = entries.map((entry) => entry.gameId);
+    const lookup = new GameLookup(this.gameCatalog);
+    await lookup.prefetch(gameIds);
+
+    const asOf = options.asOf ?? systemClock.now();
+    const eligible = this.eligibilityFilter.filterEligible(
+      lookup.resolve(gameIds),
+      userContext,
+      options.guardianPolicy,
+      asOf
+    );
+
+    if (options.userHistory) {
+      return this.scoringEngine.scoreGames(
+        eligible,
+        userContext,
+        options.userHistory,
+        asOf
+      );
+    }
+
+    const scoresById = new Map(entries.map((entry) => [entry.gameId, entry.score]));
+
+    return eligible.map((game) => ({
+      game,
+      score: scoresById.get(game.gameId) ?? 0,
+      breakdown: createEmptyBreakdown(this.scoringEngine.getSignalIds()),
+    }));
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Chart Metrics Loading Module
+ *
+ * Loads game metrics for charts in batches with bounded concurrency,
+ * instead of one sequential round-trip per game.
+ */
+
+import { AgeBand, Platform, GameId, ChartWindow } from './types';
+import { ChartDataSource, GameMetrics, WindowedMetrics } from './chartGenerator';
+
+/**
+ * Source that can fetch metrics for many games in one call
+ */
+export interface BatchMetricsSource {
+  getGameMetricsBatch(
+    gameIds: GameId[],
+    ageBand: AgeBand,
+    platform: Platform
+  ): Promise<Map<GameId, GameMetrics>>;
+}
+
+/**
+ * Source that can fetch activity counts within a time window
+ */
+export interface WindowedMetricsSource {
+  getWindowedMetrics(
+    gameIds: GameId[],
+    ageBand: AgeBand,
+    platform: Platform,
+    window: ChartWindow,
+    asOf: Date
+  ): Promise<Map<GameId, WindowedMetrics>>;
+}
+
+/**
+ * Options for metrics loading
+ */
+export interface MetricsLoaderOptions {
+  batchSize: number; // Games per batch request
+  concurrency: number; // Requests in flight at once
+}
+
+const DEFAULT_METRICS_LOADER_OPTIONS: MetricsLoaderOptions = {
+  batchSize: 200,
+  concurrency: 4,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Run tasks with at most `concurrency` in flight
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const item = items[next++];
+      await task(item);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+}
+
+/**
+ * Adapts a data source that only implements the single-game call
+ * Individual calls are issued with bounded concurrency
+ */
+export class SingleMetricsBatchAdapter implements BatchMetricsSource {
+  constructor(
+    private dataSource: ChartDataSource,
+    private concurrency: number = DEFAULT_METRICS_LOADER_OPTIONS.concurrency
+  ) {}
+
+  async getGameMetricsBatch(
+    gameIds: GameId[],
+    ageBand: AgeBand,
+    platform: Platform
+  ): Promise<Map<GameId, GameMetrics>> {
+    const metrics = new Map<GameId, GameMetrics>();
+
+    await runWithConcurrency(gameIds, this.concurrency, async (gameId) => {
+      metrics.set(
+        gameId,
+        await this.dataSource.getGameMetrics(gameId, ageBand, platform)
+      );
+    });
+
+    return metrics;
+  }
+}
+
+/**
+ * Adapts a data source that predates windowed metrics
+ * The 7- and 30-day windows are derived from the deprecated GameMetrics play
+ * counts, with lifetime sessions, players and revenue as charts used before
+ * windows existed. Counts are current, whatever the as-of time; other
+ * windows cannot be derived.
+ */
+export class GameMetricsWindowAdapter implements WindowedMetricsSource {
+  constructor(private source: BatchMetricsSource) {}
+
+  async getWindowedMetrics(
+    gameIds: GameId[],
+    ageBand: AgeBand,
+    platform: Platform,
+    window: ChartWindow
+  ): Promise<Map<GameId, WindowedMetrics>> {
+    const windowed = new Map<GameId, WindowedMetrics>();
+
+    for (const [gameId, metrics] of await this.source.getGameMetricsBatch(
+      gameIds,
+      ageBand,
+      platform
+    )) {
+      windowed.set(gameId, this.toWindowedMetrics(metrics, window));
+    }
+
+    return windowed;
+  }
+
+  private toWindowedMetrics(metrics: GameMetrics, window: ChartWindow): WindowedMetrics {
+    const totals = {
+      sessions: metrics.totalSessions,
+      uniquePlayers: metrics.uniquePlayers,
+      revenue: metrics.totalRevenue,
+    };
+
+    switch (window.durationMs) {
+      case 7 * DAY_MS:
+        return { plays: metrics.playsLast7Days, previousPlays: metrics.playsPrev7Days, ...totals };
+
+      case 30 * DAY_MS:
+        return { plays: metrics.playsLast30Days, previousPlays: 0, ...totals }; // No earlier count
+
+      default:
+        throw new Error(
+          `Window ${window.id} needs getWindowedMetrics; only 7d and 30d can be derived`
+        );
+    }
+  }
+}
+
+/**
+ * Loads metrics for a set of games, one batch request per chunk
+ */
+export class MetricsLoader {
+  private source: BatchMetricsSource;
+  private windowedSource: WindowedMetricsSource;
+  private options: MetricsLoaderOptions;
+
+  constructor(
+    dataSource: ChartDataSource,
+    options: Partial<MetricsLoaderOptions> = {}
+  ) {
+    this.options = {
+      batchSize: options.batchSize ?? DEFAULT_METRICS_LOADER_OPTIONS.batchSize,
+      concurrency: options.concurrency ?? DEFAULT_METRICS_LOADER_OPTIONS.concurrency,
+    };
+    this.source = dataSource.getGameMetricsBatch
+      ? (dataSource as BatchMetricsSource)
+      : new SingleMetricsBatchAdapter(dataSource, this.options.concurrency);
+    this.windowedSource = dataSource.getWindowedMetrics
+      ? (dataSource as WindowedMetricsSource)
+      : new GameMetricsWindowAdapter(this.source);
+  }
+
+  /**
+   * Load metrics for every game ID
+   * Games the source has no metrics for are absent from the result
+   */
+  async load(
+    gameIds: GameId[],
+    ageBand: AgeBand,
+    platform: Platform
+  ): Promise<Map<GameId, GameMetrics>> {
+    return this.loadInBatches(gameIds, this.getBatchConcurrency(this.source), (batch) =>
+      this.source.getGameMetricsBatch(batch, ageBand, platform)
+    );
+  }
+
+  /**
+   * Load activity counts within a time window ending at asOf for every game ID
+   */
+  async loadWindowed(
+    gameIds: GameId[],
+    ageBand: AgeBand,
+    platform: Platform,
+    window: ChartWindow,
+    asOf: Date
+  ): Promise<Map<GameId, WindowedMetrics>> {
+    return this.loadInBatches(gameIds, this.getBatchConcurrency(this.windowedSource), (batch) =>
+      this.windowedSource.getWindowedMetrics(batch, ageBand, platform, window, asOf)
+    );
+  }
+
+  /**
+   * The single-game adapter already bounds concurrency within a batch
+   */
+  private getBatchConcurrency(source: BatchMetricsSource | WindowedMetricsSource): number {
+    const adapted = source instanceof GameMetricsWindowAdapter ? this.source : source;
+    return adapted instanceof SingleMetricsBatchAdapter ? 1 : this.options.concurrency;
+  }
+
+  /**
+   * Split IDs into batches and merge the results of each batch request
+   */
+  private async loadInBatches<T>(
+    gameIds: GameId[],
+    concurrency: number,
+    fetchBatch: (batch: GameId[]) => Promise<Map<GameId, T>>
+  ): Promise<Map<GameId, T>> {
+    const results = new Map<GameId, T>();
+    const batches: GameId[][] = [];
+
+    for (let i = 0; i < gameIds.length; i += this.options.batchSize) {
+      batches.push(gameIds.slice(i, i + this.options.batchSize));
+    }
+
+    await runWithConcurrency(batches, concurrency, async (batch) => {
+      for (const [gameId, value] of await fetchBatch(batch)) {
+        results.set(gameId, value);
+      }
+    });
+
+    return results;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Chart Safety Hooks Module
+ *
+ * Extra policies applied to charts for younger age bands, on top of the
+ * eligibility rules every chart already passes through.
+ */
+
+import { Game, AgeBand, RecommendationConfig } from './types';
+
+/**
+ * Stricter chart policy for specific age bands
+ * Hooks can only remove games from a chart, never add them
+ */
+export interface ChartSafetyHook {
+  id: string;
+  ageBands: AgeBand[]; // Age bands whose charts the hook applies to
+  passes(game: Game, now: Date): boolean;
+}
+
+/**
+ * Age bands that get the stricter chart hooks by default
+ */
+export const YOUNGER_AGE_BANDS: AgeBand[] = [AgeBand.UNDER_9, AgeBand.AGE_9_TO_12];
+
+/**
+ * Excludes games still inside the creation-recency grace period
+ * New games have had little time for moderation reports to surface
+ */
+export class CreationGracePeriodHook implements ChartSafetyHook {
+  readonly id = 'CREATION_GRACE_PERIOD';
+
+  constructor(
+    private gracePeriodDays: number,
+    readonly ageBands: AgeBand[] = YOUNGER_AGE_BANDS
+  ) {}
+
+  passes(game: Game, now: Date): boolean {
+    const daysSinceCreation =
+      (now.getTime() - game.creationDate.getTime()) / (1000 * 60 * 60 * 24);
+
+    return daysSinceCreation >= this.gracePeriodDays;
+  }
+}
+
+/**
+ * Default hooks for younger age bands, derived from the engine config
+ */
+export function createDefaultChartSafetyHooks(
+  config: Pick<RecommendationConfig, 'creationGracePeriodDays'>
+): ChartSafetyHook[] {
+  return [new CreationGracePeriodHook(config.creationGracePeriodDays)];
+}
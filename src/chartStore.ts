@@ -0,0 +1,283 @@
+/**
+ * Chart Storage & Precomputation Module
+ *
+ * Charts are precomputed periodically and served from a TTL cache.
+ * Live computation is only a fallback for cache misses.
+ */
+
+import {
+  AgeBand,
+  Platform,
+  ChartType,
+  ChartEntry,
+  ChartKey,
+  GenreId,
+  GuardianPolicy,
+} from './types';
+import { ChartGenerator } from './chartGenerator';
+import { ChartHistoryTracker } from './chartHistory';
+import { Clock, systemClock } from './clock';
+
+/**
+ * A computed chart with its freshness window
+ */
+export interface StoredChart {
+  key: ChartKey;
+  entries: ChartEntry[];
+  limit: number; // Limit the chart was computed with
+  computedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Storage backend for computed charts (Redis, Cassandra, memory, etc.)
+ */
+export interface ChartStore {
+  get(key: ChartKey): Promise<StoredChart | undefined>;
+  set(chart: StoredChart): Promise<void>;
+}
+
+/**
+ * Flat string form of a chart key, for key-value storage backends
+ */
+export function toChartStorageKey(key: ChartKey): string {
+  return [
+    key.chartType,
+    key.ageBand,
+    key.platform,
+    key.genreId ?? '*',
+    key.window?.id ?? 'default',
+  ].join(':');
+}
+
+/**
+ * In-memory chart store, suitable for a single process
+ */
+export class InMemoryChartStore implements ChartStore {
+  private charts = new Map<string, StoredChart>();
+
+  async get(key: ChartKey): Promise<StoredChart | undefined> {
+    return this.charts.get(toChartStorageKey(key));
+  }
+
+  async set(chart: StoredChart): Promise<void> {
+    this.charts.set(toChartStorageKey(chart.key), chart);
+  }
+}
+
+/**
+ * Options for the chart cache
+ */
+export interface ChartCacheOptions {
+  ttlMs: number;
+  precomputeLimit: number; // Entries stored per chart
+  clock: Clock; // Time charts are computed at and expire against
+}
+
+const DEFAULT_CHART_CACHE_OPTIONS: ChartCacheOptions = {
+  ttlMs: 60 * 60 * 1000, // 1 hour
+  precomputeLimit: 100,
+  clock: systemClock,
+};
+
+/**
+ * Outcome of a precompute run
+ */
+export interface PrecomputeSummary {
+  refreshed: number;
+  failed: Array<{ key: ChartKey; error: string }>;
+}
+
+/**
+ * Serves charts from a store, computing them live only on a miss
+ * With a history tracker, precompute runs record the current chart period
+ * and stored entries carry movement against the previous period. TTL
+ * refreshes within a period update its snapshot; they never add periods.
+ */
+export class ChartCache {
+  private options: ChartCacheOptions;
+
+  constructor(
+    private chartGenerator: ChartGenerator,
+    private store: ChartStore,
+    options: Partial<ChartCacheOptions> = {},
+    private history?: ChartHistoryTracker
+  ) {
+    this.options = {
+      ttlMs: options.ttlMs ?? DEFAULT_CHART_CACHE_OPTIONS.ttlMs,
+      precomputeLimit:
+        options.precomputeLimit ?? DEFAULT_CHART_CACHE_OPTIONS.precomputeLimit,
+      clock: options.clock ?? DEFAULT_CHART_CACHE_OPTIONS.clock,
+    };
+  }
+
+  /**
+   * Get a chart, preferring a fresh cached copy
+   * Guardian policies are per-account, so those charts are always computed live
+   * and carry no movement, as their ranks differ from the recorded chart
+   */
+  async getChart(
+    key: ChartKey,
+    limit: number = 50,
+    guardianPolicy?: GuardianPolicy
+  ): Promise<ChartEntry[]> {
+    if (guardianPolicy) {
+      return this.chartGenerator.generateChart(
+        key,
+        limit,
+        guardianPolicy,
+        this.options.clock.now()
+      );
+    }
+
+    const normalizedKey = this.normalizeKey(key);
+    const stored = await this.store.get(normalizedKey);
+    if (stored && this.canServe(stored, limit)) {
+      return stored.entries.slice(0, limit);
+    }
+
+    const refreshed = await this.refresh(
+      normalizedKey,
+      Math.max(limit, this.options.precomputeLimit)
+    );
+    return refreshed.entries.slice(0, limit);
+  }
+
+  /**
+   * Recompute every chart combination and store the results
+   * Charts for the same age band and platform share one metrics fetch
+   * Intended to be called from a scheduler; failures are reported, not thrown
+   */
+  async precomputeAll(genreIds: GenreId[] = []): Promise<PrecomputeSummary> {
+    const summary: PrecomputeSummary = { refreshed: 0, failed: [] };
+    const asOf = this.options.clock.now();
+
+    for (const keys of this.allChartKeyGroups(genreIds)) {
+      try {
+        const charts = await this.chartGenerator.generateCharts(
+          keys,
+          this.options.precomputeLimit,
+          undefined,
+          asOf
+        );
+        for (let i = 0; i < keys.length; i++) {
+          const entries = this.history
+            ? await this.history.record(keys[i], charts[i], asOf)
+            : charts[i];
+          await this.save(keys[i], entries, this.options.precomputeLimit, asOf);
+          summary.refreshed++;
+        }
+      } catch (error) {
+        for (const key of keys) {
+          summary.failed.push({ key, error: (error as Error).message });
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Check if a stored chart is past its TTL
+   */
+  isStale(chart: StoredChart, now: Date = this.options.clock.now()): boolean {
+    return now.getTime() >= chart.expiresAt.getTime();
+  }
+
+  /**
+   * Only genre charts are keyed by genre
+   */
+  private normalizeKey(key: ChartKey): ChartKey {
+    const { chartType, ageBand, platform, genreId, window } = key;
+    const normalized: ChartKey = { chartType, ageBand, platform };
+
+    if (chartType === ChartType.TRENDING_IN_GENRE) {
+      normalized.genreId = genreId;
+    }
+    if (window) {
+      normalized.window = window;
+    }
+
+    return normalized;
+  }
+
+  /**
+   * A stored chart can serve a request if it is fresh and long enough
+   * A chart shorter than its computed limit already holds every ranked game
+   */
+  private canServe(chart: StoredChart, limit: number): boolean {
+    if (this.isStale(chart)) {
+      return false;
+    }
+
+    return limit <= chart.entries.length || chart.entries.length < chart.limit;
+  }
+
+  /**
+   * Compute a chart live and write it to the store
+   * Movement is against the previous period; nothing is recorded
+   */
+  private async refresh(key: ChartKey, limit: number): Promise<StoredChart> {
+    const asOf = this.options.clock.now();
+    const computed = await this.chartGenerator.generateChart(
+      key,
+      limit,
+      undefined,
+      asOf
+    );
+    const entries = this.history
+      ? await this.history.annotate(key, computed, asOf)
+      : computed;
+
+    return this.save(key, entries, limit, asOf);
+  }
+
+  /**
+   * Write computed entries to the store with a fresh TTL
+   */
+  private async save(
+    key: ChartKey,
+    entries: ChartEntry[],
+    limit: number,
+    computedAt: Date
+  ): Promise<StoredChart> {
+    const chart: StoredChart = {
+      key,
+      entries,
+      limit,
+      computedAt,
+      expiresAt: new Date(computedAt.getTime() + this.options.ttlMs),
+    };
+
+    await this.store.set(chart);
+    return chart;
+  }
+
+  /**
+   * Every chart type, grouped by age band and platform
+   * Genre charts are produced for each of the given genres
+   */
+  private allChartKeyGroups(genreIds: GenreId[]): ChartKey[][] {
+    const groups: ChartKey[][] = [];
+
+    for (const ageBand of Object.values(AgeBand)) {
+      for (const platform of Object.values(Platform)) {
+        const keys: ChartKey[] = [];
+
+        for (const chartType of Object.values(ChartType)) {
+          if (chartType === ChartType.TRENDING_IN_GENRE) {
+            for (const genreId of genreIds) {
+              keys.push({ chartType, ageBand, platform, genreId });
+            }
+          } else {
+            keys.push({ chartType, ageBand, platform });
+          }
+        }
+
+        groups.push(keys);
+      }
+    }
+
+    return groups;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Clock Module
+ *
+ * Source of the current time. Components take an "as-of" time instead of
+ * reading the system clock, so a request can be replayed at any timestamp
+ * and produce identical results.
+ */
+
+/**
+ * Provides the current time
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Wall-clock time
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Clock stopped at a fixed time, for replays, backfills and tests
+ */
+export class FixedClock implements Clock {
+  private time: number;
+
+  constructor(time: Date) {
+    this.time = time.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  /**
+   * Move the clock to a new time
+   */
+  set(time: Date): void {
+    this.time = time.getTime();
+  }
+
+  /**
+   * Move the clock forward
+   */
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
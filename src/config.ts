@@ -4,7 +4,13 @@
  * Provides sensible defaults for the recommendation engine.
  */
 
-import { RecommendationConfig } from './types';
+import {
+  RecommendationConfig,
+  AgeBand,
+  GameFeature,
+  RatingEstimator,
+} from './types';
+import { SafetyRuleSet } from './safetyRules';
 
 /**
  * Default configuration for the recommendation engine
@@ -20,6 +26,7 @@ export const DEFAULT_CONFIG: RecommendationConfig = {
     sponsoredBoost: 0.3,
     repetitionPenalty: 2.0,
     creationRecencyPenalty: 1.5, // Penalize very new games
+    dismissedGenrePenalty: 1.0, // Genres the user marked "not interested"
   },
   moderationThreshold: 0.8,
   recencyDecayDays: 90,
@@ -35,4 +42,36 @@ export const DEFAULT_CONFIG: RecommendationConfig = {
     requireLowIntensity: true,
     avoidAllMultiplayer: true,
   },
+  rating: {
+    estimator: RatingEstimator.LOG_CONFIDENCE, // Current weights are tuned for its -1 to 1 range
+    wilsonZ: 1.96, // 95% confidence
+    defaultPrior: { likeRate: 0.8, strength: 50 }, // Worth 50 reactions at 80% likes
+  },
+  dismissals: {
+    expiryDays: 90, // A dismissed genre can come back after three months
+    genreVectorDamping: 0.5,
+  },
+};
+
+/**
+ * Default safety rule set, matching the README's eligibility rules
+ */
+export const DEFAULT_SAFETY_RULE_SET: SafetyRuleSet = {
+  version: '1.0.0',
+  ageBandOrder: {
+    [AgeBand.UNDER_9]: 0,
+    [AgeBand.AGE_9_TO_12]: 1,
+    [AgeBand.AGE_13_PLUS]: 2,
+  },
+  rules: [
+    {
+      id: 'VOICE_CHAT_UNDER_13',
+      description: 'Users under 13 cannot access games with voice chat',
+      when: {
+        userAgeBands: [AgeBand.UNDER_9, AgeBand.AGE_9_TO_12],
+        gameFeatures: [GameFeature.VOICE_CHAT],
+      },
+      action: 'REJECT',
+    },
+  ],
 };
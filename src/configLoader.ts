@@ -0,0 +1,369 @@
+/**
+ * Configuration Loading Module
+ *
+ * Builds a validated RecommendationConfig from layers, each overriding the
+ * one before: DEFAULT_CONFIG, a JSON file, environment variables, then
+ * runtime patches. Layers are deep-merged, so a patch only needs the
+ * settings it changes.
+ */
+
+import { readFileSync } from 'fs';
+import { RecommendationConfig, RatingEstimator, AgeBand } from './types';
+import { DEFAULT_CONFIG } from './config';
+
+/**
+ * Recursive partial, used for config patches
+ * Arrays are replaced as a whole rather than merged
+ */
+export type DeepPartial<T> = T extends Array<unknown>
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * Partial config that is deep-merged over a full config
+ */
+export type ConfigPatch = DeepPartial<RecommendationConfig>;
+
+/**
+ * Where to load configuration layers from
+ */
+export interface ConfigSources {
+  filePath?: string; // JSON file with a partial config
+  env?: Record<string, string | undefined>; // e.g. process.env
+  patches?: ConfigPatch[]; // Runtime patches, applied in order
+}
+
+/**
+ * Prefix of environment variables read as config overrides
+ * RECOMMENDATION_WEIGHTS__SPONSORED_BOOST=0 sets weights.sponsoredBoost
+ */
+export const CONFIG_ENV_PREFIX = 'RECOMMENDATION_';
+
+const TOP_LEVEL_KEYS = new Set(Object.keys(DEFAULT_CONFIG));
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge a patch over a config
+ * Nested objects are merged key by key; undefined values in the patch are ignored
+ */
+export function mergeConfig(
+  base: RecommendationConfig,
+  patch: ConfigPatch
+): RecommendationConfig {
+  return mergeValues(base, patch) as RecommendationConfig;
+}
+
+function mergeValues(base: unknown, patch: unknown): unknown {
+  if (patch === undefined) {
+    return base;
+  }
+  if (!isPlainObject(base) || !isPlainObject(patch)) {
+    return patch;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    merged[key] = mergeValues(base[key], value);
+  }
+
+  return merged;
+}
+
+/**
+ * Loads, merges and validates engine configuration
+ */
+export class ConfigLoader {
+  /**
+   * Build a config from every given layer over DEFAULT_CONFIG
+   * Only the merged result is validated, so layers may be partial
+   */
+  load(sources: ConfigSources = {}): RecommendationConfig {
+    const layers: ConfigPatch[] = [];
+
+    if (sources.filePath) {
+      layers.push(this.loadFromFile(sources.filePath));
+    }
+    if (sources.env) {
+      layers.push(this.fromEnvironment(sources.env));
+    }
+    layers.push(...(sources.patches ?? []));
+
+    const merged = layers.reduce<RecommendationConfig>(
+      (config, layer) => mergeConfig(config, layer),
+      DEFAULT_CONFIG
+    );
+
+    return this.validate(merged);
+  }
+
+  /**
+   * Read a partial config from a JSON file
+   */
+  loadFromFile(path: string): ConfigPatch {
+    let input: unknown;
+    try {
+      input = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new Error(`Invalid config file ${path}: ${(error as Error).message}`);
+    }
+
+    if (!isPlainObject(input)) {
+      throw new Error(`Invalid config file ${path}: expected an object`);
+    }
+
+    return input as ConfigPatch;
+  }
+
+  /**
+   * Build a partial config from prefixed environment variables
+   * Path segments are separated by "__" and written in SCREAMING_SNAKE_CASE;
+   * values are parsed as JSON where possible, otherwise kept as strings
+   */
+  fromEnvironment(env: Record<string, string | undefined>): ConfigPatch {
+    const patch: Record<string, unknown> = {};
+
+    for (const [name, raw] of Object.entries(env)) {
+      if (!name.startsWith(CONFIG_ENV_PREFIX) || raw === undefined) {
+        continue;
+      }
+
+      const path = name
+        .slice(CONFIG_ENV_PREFIX.length)
+        .split('__')
+        .map((segment) => this.toCamelCase(segment));
+
+      let target = patch;
+      for (const segment of path.slice(0, -1)) {
+        if (!isPlainObject(target[segment])) {
+          target[segment] = {};
+        }
+        target = target[segment] as Record<string, unknown>;
+      }
+      target[path[path.length - 1]] = this.parseEnvValue(raw);
+    }
+
+    return patch as ConfigPatch;
+  }
+
+  /**
+   * Validate an untyped object against the config schema
+   * Throws an error listing every problem found
+   */
+  validate(input: unknown): RecommendationConfig {
+    const errors: string[] = [];
+
+    if (!isPlainObject(input)) {
+      throw new Error('Invalid recommendation config: expected an object');
+    }
+
+    for (const key of Object.keys(input)) {
+      if (!TOP_LEVEL_KEYS.has(key)) {
+        errors.push(`${key} is not a known setting`);
+      }
+    }
+
+    if (!isPlainObject(input.weights)) {
+      errors.push('weights must be an object');
+    } else {
+      for (const [signalId, weight] of Object.entries(input.weights)) {
+        this.checkNumber(errors, `weights.${signalId}`, weight, { min: 0 });
+      }
+    }
+
+    this.checkNumber(errors, 'moderationThreshold', input.moderationThreshold, {
+      min: 0,
+      max: 1,
+    });
+    this.checkNumber(errors, 'recencyDecayDays', input.recencyDecayDays, {
+      min: 0,
+      exclusiveMin: true,
+    });
+    this.checkNumber(errors, 'creationGracePeriodDays', input.creationGracePeriodDays, {
+      min: 0,
+    });
+    this.checkNumber(errors, 'creationPenaltyMaxDays', input.creationPenaltyMaxDays, {
+      min: 0,
+    });
+    if (
+      typeof input.creationGracePeriodDays === 'number' &&
+      typeof input.creationPenaltyMaxDays === 'number' &&
+      input.creationGracePeriodDays >= input.creationPenaltyMaxDays
+    ) {
+      errors.push('creationGracePeriodDays must be less than creationPenaltyMaxDays');
+    }
+    this.checkNumber(errors, 'sponsoredAmountMultiplier', input.sponsoredAmountMultiplier, {
+      min: 0,
+    });
+    this.checkNumber(errors, 'maxSponsoredBoost', input.maxSponsoredBoost, { min: 0 });
+    this.checkNumber(errors, 'maxResults', input.maxResults, { min: 1, integer: true });
+    this.checkNumber(errors, 'maxSponsoredPerList', input.maxSponsoredPerList, {
+      min: 0,
+      integer: true,
+    });
+
+    this.validateDiversityRules(input.diversityRules, errors);
+    this.validateRating(input.rating, errors);
+    this.validateDismissals(input.dismissals, errors);
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid recommendation config:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    return input as unknown as RecommendationConfig;
+  }
+
+  /**
+   * Validate diversity rules, appending problems to errors
+   */
+  private validateDiversityRules(rules: unknown, errors: string[]): void {
+    if (!isPlainObject(rules)) {
+      errors.push('diversityRules must be an object');
+      return;
+    }
+
+    this.checkNumber(errors, 'diversityRules.minGenres', rules.minGenres, {
+      min: 0,
+      integer: true,
+    });
+    this.checkNumber(errors, 'diversityRules.maxPerGenre', rules.maxPerGenre, {
+      min: 1,
+      integer: true,
+    });
+
+    for (const key of ['requireLowIntensity', 'avoidAllMultiplayer']) {
+      if (typeof rules[key] !== 'boolean') {
+        errors.push(`diversityRules.${key} must be a boolean`);
+      }
+    }
+  }
+
+  /**
+   * Validate rating settings, appending problems to errors
+   */
+  private validateRating(rating: unknown, errors: string[]): void {
+    if (!isPlainObject(rating)) {
+      errors.push('rating must be an object');
+      return;
+    }
+
+    const estimators: unknown[] = Object.values(RatingEstimator);
+    if (!estimators.includes(rating.estimator)) {
+      errors.push(`rating.estimator must be one of ${estimators.join(', ')}`);
+    }
+
+    this.checkNumber(errors, 'rating.wilsonZ', rating.wilsonZ, {
+      min: 0,
+      exclusiveMin: true,
+    });
+    this.validatePrior(rating.defaultPrior, 'rating.defaultPrior', errors);
+
+    if (rating.priorsByGenre !== undefined) {
+      if (!isPlainObject(rating.priorsByGenre)) {
+        errors.push('rating.priorsByGenre must be an object');
+      } else {
+        for (const [genreId, prior] of Object.entries(rating.priorsByGenre)) {
+          if (!Number.isInteger(Number(genreId))) {
+            errors.push(`rating.priorsByGenre key "${genreId}" must be a genre ID`);
+          }
+          this.validatePrior(prior, `rating.priorsByGenre.${genreId}`, errors);
+        }
+      }
+    }
+
+    if (rating.priorsByAgeBand !== undefined) {
+      if (!isPlainObject(rating.priorsByAgeBand)) {
+        errors.push('rating.priorsByAgeBand must be an object');
+      } else {
+        const ageBands: string[] = Object.values(AgeBand);
+        for (const [ageBand, prior] of Object.entries(rating.priorsByAgeBand)) {
+          if (!ageBands.includes(ageBand)) {
+            errors.push(`rating.priorsByAgeBand key "${ageBand}" is not an age band`);
+          }
+          this.validatePrior(prior, `rating.priorsByAgeBand.${ageBand}`, errors);
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate dismissal settings, appending problems to errors
+   */
+  private validateDismissals(dismissals: unknown, errors: string[]): void {
+    if (!isPlainObject(dismissals)) {
+      errors.push('dismissals must be an object');
+      return;
+    }
+
+    this.checkNumber(errors, 'dismissals.expiryDays', dismissals.expiryDays, {
+      min: 0,
+      exclusiveMin: true,
+    });
+    this.checkNumber(
+      errors,
+      'dismissals.genreVectorDamping',
+      dismissals.genreVectorDamping,
+      { min: 0, max: 1 }
+    );
+  }
+
+  private validatePrior(prior: unknown, path: string, errors: string[]): void {
+    if (!isPlainObject(prior)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    this.checkNumber(errors, `${path}.likeRate`, prior.likeRate, { min: 0, max: 1 });
+    this.checkNumber(errors, `${path}.strength`, prior.strength, {
+      min: 0,
+      exclusiveMin: true,
+    });
+  }
+
+  /**
+   * Check that a value is a finite number within bounds
+   */
+  private checkNumber(
+    errors: string[],
+    path: string,
+    value: unknown,
+    bounds: { min?: number; max?: number; exclusiveMin?: boolean; integer?: boolean }
+  ): void {
+    const kind = bounds.integer ? 'an integer' : 'a finite number';
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${path} must be ${kind}`);
+      return;
+    }
+    if (bounds.integer && !Number.isInteger(value)) {
+      errors.push(`${path} must be ${kind}`);
+      return;
+    }
+
+    const { min, max, exclusiveMin } = bounds;
+    if (min !== undefined && (exclusiveMin ? value <= min : value < min)) {
+      errors.push(`${path} must be ${exclusiveMin ? 'greater than' : 'at least'} ${min}`);
+    }
+    if (max !== undefined && value > max) {
+      errors.push(`${path} must be at most ${max}`);
+    }
+  }
+
+  private toCamelCase(segment: string): string {
+    return segment
+      .toLowerCase()
+      .replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+  }
+
+  private parseEnvValue(raw: string): unknown {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+}
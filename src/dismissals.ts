@@ -0,0 +1,99 @@
+/**
+ * Dismissals Module
+ *
+ * "Not interested" feedback at game and genre level. Dismissed games are
+ * removed from personalised buckets; dismissed genres are down-weighted in
+ * the user's genre vector and penalised in scoring. Every dismissal fades
+ * linearly and expires after `DismissalConfig.expiryDays`.
+ */
+
+import { DismissalConfig, Game, GameId, GenreVector, UserHistory } from './types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Strength of a dismissal as of a time: 1 when made, 0 once expired
+ */
+export function getDismissalStrength(
+  dismissedAt: Date,
+  config: DismissalConfig,
+  asOf: Date
+): number {
+  const ageDays = (asOf.getTime() - dismissedAt.getTime()) / DAY_MS;
+
+  if (ageDays >= config.expiryDays) {
+    return 0;
+  }
+
+  return 1 - Math.max(ageDays, 0) / config.expiryDays;
+}
+
+/**
+ * Games the user has dismissed that have not expired
+ */
+export function getActiveDismissedGames(
+  userHistory: UserHistory,
+  config: DismissalConfig,
+  asOf: Date
+): Set<GameId> {
+  const active = new Set<GameId>();
+
+  for (const [gameId, dismissedAt] of userHistory.dismissedGames ?? []) {
+    if (getDismissalStrength(dismissedAt, config, asOf) > 0) {
+      active.add(gameId);
+    }
+  }
+
+  return active;
+}
+
+/**
+ * User genre vector with dismissed genres scaled down by
+ * genreVectorDamping × strength; other genres are unchanged
+ */
+export function dampGenreVector(
+  genreVector: GenreVector,
+  userHistory: UserHistory,
+  config: DismissalConfig,
+  asOf: Date
+): GenreVector {
+  const damped: GenreVector = new Map(genreVector);
+
+  for (const [genreId, dismissedAt] of userHistory.dismissedGenres ?? []) {
+    const weight = damped.get(genreId);
+    if (weight === undefined) {
+      continue;
+    }
+
+    const strength = getDismissalStrength(dismissedAt, config, asOf);
+    damped.set(genreId, weight * (1 - config.genreVectorDamping * strength));
+  }
+
+  return damped;
+}
+
+/**
+ * Share of a game's genre vector in dismissed genres, weighted by strength
+ * Genre weights are normalised by their total, so the share is 0 to 1
+ */
+export function getDismissedGenreShare(
+  game: Game,
+  userHistory: UserHistory,
+  config: DismissalConfig,
+  asOf: Date
+): number {
+  const total = [...game.genreVector.values()].reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) {
+    return 0;
+  }
+
+  let share = 0;
+
+  for (const [genreId, dismissedAt] of userHistory.dismissedGenres ?? []) {
+    share +=
+      (game.genreVector.get(genreId) || 0) *
+      getDismissalStrength(dismissedAt, config, asOf);
+  }
+
+  return share / total;
+}
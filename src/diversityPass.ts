@@ -6,6 +6,30 @@
 
 import { ScoredGame, GameFeature, RecommendationConfig, GenreId } from './types';
 
+/**
+ * Diversity rules that can cause a game to be skipped
+ */
+export enum DiversityRule {
+  MAX_PER_GENRE = 'MAX_PER_GENRE',
+  ALL_MULTIPLAYER = 'ALL_MULTIPLAYER',
+}
+
+/**
+ * A game skipped by the diversity pass and the rule it violated
+ */
+export interface DiversitySkip {
+  scoredGame: ScoredGame;
+  rule: DiversityRule;
+}
+
+/**
+ * Diversified list together with the games that were skipped
+ */
+export interface DiversityResult {
+  diversified: ScoredGame[];
+  skipped: DiversitySkip[];
+}
+
 /**
  * Diversity rules checker and enforcer
  */
@@ -16,12 +40,26 @@ export class DiversityPass {
    * Apply diversity rules to scored games
    */
   diversify(sortedGames: ScoredGame[]): ScoredGame[] {
+    return this.diversifyWithReport(sortedGames).diversified;
+  }
+
+  /**
+   * Apply diversity rules and report which games were skipped and why
+   */
+  diversifyWithReport(sortedGames: ScoredGame[]): DiversityResult {
     const diversified: ScoredGame[] = [];
+    const skipped: DiversitySkip[] = [];
     const genreCounts = new Map<GenreId, number>();
 
     for (const scoredGame of sortedGames) {
       // Check if adding this game would violate diversity rules
-      if (this.violatesDiversityRules(scoredGame, diversified, genreCounts)) {
+      const violatedRule = this.violatesDiversityRules(
+        scoredGame,
+        diversified,
+        genreCounts
+      );
+      if (violatedRule) {
+        skipped.push({ scoredGame, rule: violatedRule });
         continue;
       }
 
@@ -40,28 +78,29 @@ export class DiversityPass {
     // Post-process to ensure minimum requirements
     this.ensureMinimumRequirements(diversified);
 
-    return diversified;
+    return { diversified, skipped };
   }
 
   /**
    * Check if adding a game would violate diversity rules
+   * Returns the first violated rule, or null if the game can be added
    */
   private violatesDiversityRules(
     scoredGame: ScoredGame,
     diversified: ScoredGame[],
     genreCounts: Map<GenreId, number>
-  ): boolean {
+  ): DiversityRule | null {
     // Check max per genre constraint
     if (this.violatesMaxPerGenre(scoredGame, genreCounts)) {
-      return true;
+      return DiversityRule.MAX_PER_GENRE;
     }
 
     // Check all-multiplayer constraint
     if (this.violatesAllMultiplayer(scoredGame, diversified)) {
-      return true;
+      return DiversityRule.ALL_MULTIPLAYER;
     }
 
-    return false;
+    return null;
   }
 
   /**
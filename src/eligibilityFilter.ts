@@ -1,63 +1,278 @@
 /**
  * Eligibility & Safety Filtering Module
- * 
+ *
  * Enforces hard safety rules. Games failing this stage are never scored.
  * This layer must remain deterministic and auditable.
  */
 
-import { Game, UserContext, AgeBand, GameFeature } from './types';
+import {
+  Game,
+  GameId,
+  UserContext,
+  AgeBand,
+  GameFeature,
+  Platform,
+  GuardianPolicy,
+} from './types';
+import { SafetyRule, SafetyRuleSet, SafetyRuleSetLoader } from './safetyRules';
+import { DEFAULT_SAFETY_RULE_SET } from './config';
+import { Clock, systemClock } from './clock';
 
 /**
  * Configuration for eligibility filtering
  */
 export interface EligibilityConfig {
   moderationThreshold: number;
+  ruleSet?: SafetyRuleSet; // Defaults to DEFAULT_SAFETY_RULE_SET
+  auditClock?: Clock; // Stamps evaluatedAt; keep it real-time even when replaying
+}
+
+/**
+ * Who a game is being evaluated for
+ * Charts are evaluated for an age band and platform rather than a user
+ */
+export type EligibilityAudience = Pick<UserContext, 'ageBand' | 'platform'>;
+
+/**
+ * Stable identifiers for the built-in eligibility rules
+ * Declarative rules use the IDs from their rule set (e.g. VOICE_CHAT_UNDER_13)
+ * These appear in audit records and must never be renamed
+ */
+export enum EligibilityRuleId {
+  AGE_BAND = 'AGE_BAND',
+  MODERATION_THRESHOLD = 'MODERATION_THRESHOLD',
+  PLATFORM_COMPATIBILITY = 'PLATFORM_COMPATIBILITY',
+  GUARDIAN_BLOCKED_GAME = 'GUARDIAN_BLOCKED_GAME',
+  GUARDIAN_BLOCKED_FEATURE = 'GUARDIAN_BLOCKED_FEATURE',
+  GUARDIAN_BLOCKED_GENRE = 'GUARDIAN_BLOCKED_GENRE',
+  GUARDIAN_LOW_INTENSITY_ONLY = 'GUARDIAN_LOW_INTENSITY_ONLY',
+}
+
+/**
+ * Value compared by a rule
+ */
+export type RuleValue = string | number | boolean | Array<string | number>;
+
+/**
+ * Outcome of a single rule for a single game
+ */
+export interface RuleEvaluation {
+  ruleId: string;
+  passed: boolean;
+  values: Record<string, RuleValue>;
+}
+
+/**
+ * Eligibility decision for one candidate
+ * Carries only the coarse user context, never the user ID
+ */
+export interface EligibilityDecision {
+  gameId: GameId;
+  eligible: boolean;
+  failedRules: string[];
+  evaluations: RuleEvaluation[];
+  ruleSetVersion: string;
+  ageBand: AgeBand;
+  platform: Platform;
+  guardianPolicyApplied: boolean;
+  evaluatedAt: Date; // When the decision was actually made
+  asOf: Date; // Time the request was evaluated as of; earlier for replays and backfills
+}
+
+/**
+ * Destination for eligibility decisions (log pipeline, warehouse, etc.)
+ */
+export interface EligibilityAuditSink {
+  record(decisions: EligibilityDecision[]): void;
+}
+
+/**
+ * Query over recorded eligibility decisions
+ */
+export interface EligibilityAuditQuery {
+  gameId?: GameId;
+  ageBand?: AgeBand;
+  platform?: Platform;
+  eligible?: boolean;
+  from?: Date; // Bounds on evaluatedAt, so replays never show up as past decisions
+  to?: Date;
+}
+
+/**
+ * In-memory audit sink, useful for tests and local debugging
+ */
+export class InMemoryEligibilityAuditSink implements EligibilityAuditSink {
+  private decisions: EligibilityDecision[] = [];
+
+  record(decisions: EligibilityDecision[]): void {
+    this.decisions.push(...decisions);
+  }
+
+  /**
+   * Find recorded decisions matching every field set in the query
+   */
+  query(query: EligibilityAuditQuery = {}): EligibilityDecision[] {
+    return this.decisions.filter(
+      (decision) =>
+        (query.gameId === undefined || decision.gameId === query.gameId) &&
+        (query.ageBand === undefined || decision.ageBand === query.ageBand) &&
+        (query.platform === undefined || decision.platform === query.platform) &&
+        (query.eligible === undefined || decision.eligible === query.eligible) &&
+        (query.from === undefined || decision.evaluatedAt >= query.from) &&
+        (query.to === undefined || decision.evaluatedAt <= query.to)
+    );
+  }
+
+  clear(): void {
+    this.decisions = [];
+  }
 }
 
 /**
  * Eligibility and safety filter
  */
 export class EligibilityFilter {
-  constructor(private config: EligibilityConfig) {}
+  private ruleSet: SafetyRuleSet;
+  private moderationThreshold: number;
+  private auditClock: Clock;
+
+  constructor(
+    config: EligibilityConfig,
+    private auditSink?: EligibilityAuditSink
+  ) {
+    // Rule sets built in code skip the loader, so validate them here too
+    this.ruleSet = new SafetyRuleSetLoader().validate(
+      config.ruleSet ?? DEFAULT_SAFETY_RULE_SET
+    );
+    this.auditClock = config.auditClock ?? systemClock;
+    this.moderationThreshold = Math.max(
+      config.moderationThreshold,
+      this.ruleSet.moderationThreshold ?? 0
+    );
+  }
+
+  /**
+   * Version of the rule set this filter enforces
+   */
+  getRuleSetVersion(): string {
+    return this.ruleSet.version;
+  }
 
   /**
    * Filter candidates based on hard safety rules
    * Games failing these checks are never scored
    */
-  filterEligible(candidates: Game[], userContext: UserContext): Game[] {
-    const eligible: Game[] = [];
-
-    for (const game of candidates) {
-      // Check age band eligibility
-      if (!this.isAgeBandEligible(game, userContext.ageBand)) {
-        continue;
-      }
-
-      // Check moderation score
-      if (!this.passesModeration(game)) {
-        continue;
-      }
-
-      // Check feature restrictions for age
-      if (!this.checkFeatureRestrictions(game, userContext.ageBand)) {
-        continue;
-      }
-
-      eligible.push(game);
-    }
+  filterEligible(
+    candidates: Game[],
+    userContext: EligibilityAudience,
+    guardianPolicy?: GuardianPolicy,
+    asOf: Date = systemClock.now()
+  ): Game[] {
+    const decisions = this.evaluateEligibility(
+      candidates,
+      userContext,
+      guardianPolicy,
+      asOf
+    );
+
+    return candidates.filter((_, index) => decisions[index].eligible);
+  }
+
+  /**
+   * Evaluate every candidate and return one decision per game, in input order
+   * Decisions are forwarded to the audit sink, if one is configured
+   */
+  evaluateEligibility(
+    candidates: Game[],
+    userContext: EligibilityAudience,
+    guardianPolicy?: GuardianPolicy,
+    asOf: Date = systemClock.now()
+  ): EligibilityDecision[] {
+    const decisions = candidates.map((game) =>
+      this.buildDecision(game, userContext, guardianPolicy, asOf)
+    );
+
+    this.auditSink?.record(decisions);
+
+    return decisions;
+  }
+
+  /**
+   * Explain the eligibility decision for a single game without recording it
+   */
+  explainEligibility(
+    game: Game,
+    userContext: EligibilityAudience,
+    guardianPolicy?: GuardianPolicy,
+    asOf: Date = systemClock.now()
+  ): EligibilityDecision {
+    return this.buildDecision(game, userContext, guardianPolicy, asOf);
+  }
+
+  /**
+   * Evaluate all rules for a game
+   * Every rule runs, so the decision lists all failures, not just the first
+   */
+  private buildDecision(
+    game: Game,
+    userContext: EligibilityAudience,
+    guardianPolicy: GuardianPolicy | undefined,
+    asOf: Date
+  ): EligibilityDecision {
+    const evaluations: RuleEvaluation[] = [
+      {
+        ruleId: EligibilityRuleId.AGE_BAND,
+        passed: this.isAgeBandEligible(game, userContext.ageBand),
+        values: {
+          gameMinAgeBand: game.minAgeBand,
+          userAgeBand: userContext.ageBand,
+        },
+      },
+      {
+        ruleId: EligibilityRuleId.MODERATION_THRESHOLD,
+        passed: this.passesModeration(game),
+        values: {
+          moderationScore: game.moderationScore,
+          moderationThreshold: this.moderationThreshold,
+        },
+      },
+      ...this.ruleSet.rules.map((rule) =>
+        this.evaluateRule(rule, game, userContext)
+      ),
+      {
+        ruleId: EligibilityRuleId.PLATFORM_COMPATIBILITY,
+        passed: this.isPlatformCompatible(game, userContext.platform),
+        values: {
+          supportedPlatforms: [...game.supportedPlatforms],
+          userPlatform: userContext.platform,
+        },
+      },
+      ...this.evaluateGuardianPolicy(game, guardianPolicy),
+    ];
 
-    return eligible;
+    const failedRules = evaluations
+      .filter((evaluation) => !evaluation.passed)
+      .map((evaluation) => evaluation.ruleId);
+
+    return {
+      gameId: game.gameId,
+      eligible: failedRules.length === 0,
+      failedRules,
+      evaluations,
+      ruleSetVersion: this.ruleSet.version,
+      ageBand: userContext.ageBand,
+      platform: userContext.platform,
+      guardianPolicyApplied: guardianPolicy !== undefined,
+      evaluatedAt: this.auditClock.now(),
+      asOf,
+    };
   }
 
   /**
    * Check if game's minimum age band is appropriate for user
    */
   private isAgeBandEligible(game: Game, userAgeBand: AgeBand): boolean {
-    const ageBandOrder = {
-      [AgeBand.UNDER_9]: 0,
-      [AgeBand.AGE_9_TO_12]: 1,
-      [AgeBand.AGE_13_PLUS]: 2,
-    };
+    const ageBandOrder = this.ruleSet.ageBandOrder;
 
     return ageBandOrder[game.minAgeBand] <= ageBandOrder[userAgeBand];
   }
@@ -66,31 +281,119 @@ export class EligibilityFilter {
    * Check if game passes moderation threshold
    */
   private passesModeration(game: Game): boolean {
-    return game.moderationScore >= this.config.moderationThreshold;
+    return game.moderationScore >= this.moderationThreshold;
   }
 
   /**
-   * Check feature restrictions based on age band
+   * Evaluate a declarative rule
+   * The game is rejected only when every condition in the rule matches
    */
-  private checkFeatureRestrictions(game: Game, userAgeBand: AgeBand): boolean {
-    // Users under 13 cannot access games with voice chat
-    if (userAgeBand !== AgeBand.AGE_13_PLUS) {
-      if (game.features.has(GameFeature.VOICE_CHAT)) {
-        return false;
-      }
+  private evaluateRule(
+    rule: SafetyRule,
+    game: Game,
+    userContext: EligibilityAudience
+  ): RuleEvaluation {
+    const { userAgeBands, userPlatforms, gameFeatures } = rule.when;
+    const matchedFeatures = gameFeatures
+      ? gameFeatures.filter((feature) => game.features.has(feature))
+      : [];
+
+    const matches =
+      (!userAgeBands || userAgeBands.includes(userContext.ageBand)) &&
+      (!userPlatforms || userPlatforms.includes(userContext.platform)) &&
+      (!gameFeatures || matchedFeatures.length > 0);
+
+    return {
+      ruleId: rule.id,
+      passed: !matches,
+      values: {
+        userAgeBand: userContext.ageBand,
+        userPlatform: userContext.platform,
+        matchedFeatures,
+      },
+    };
+  }
+
+  /**
+   * Check if game can be played on the user's platform
+   */
+  isPlatformCompatible(game: Game, platform: Platform): boolean {
+    return game.supportedPlatforms.has(platform);
+  }
+
+  /**
+   * Check guardian policy restrictions
+   * Applied on top of the built-in rules, so it can only tighten the filter
+   */
+  passesGuardianPolicy(game: Game, policy?: GuardianPolicy): boolean {
+    return this.evaluateGuardianPolicy(game, policy).every(
+      (evaluation) => evaluation.passed
+    );
+  }
+
+  /**
+   * Evaluate each restriction set in the guardian policy
+   */
+  private evaluateGuardianPolicy(
+    game: Game,
+    policy?: GuardianPolicy
+  ): RuleEvaluation[] {
+    if (!policy) {
+      return [];
+    }
+
+    const evaluations: RuleEvaluation[] = [];
+
+    if (policy.blockedGames) {
+      evaluations.push({
+        ruleId: EligibilityRuleId.GUARDIAN_BLOCKED_GAME,
+        passed: !policy.blockedGames.has(game.gameId),
+        values: { gameId: game.gameId },
+      });
+    }
+
+    if (policy.blockedFeatures) {
+      const blocked = [...game.features].filter((feature) =>
+        policy.blockedFeatures!.has(feature)
+      );
+      evaluations.push({
+        ruleId: EligibilityRuleId.GUARDIAN_BLOCKED_FEATURE,
+        passed: blocked.length === 0,
+        values: { blockedFeatures: blocked },
+      });
     }
 
-    return true;
+    if (policy.blockedGenres) {
+      const blocked = [...game.genreVector.keys()].filter((genreId) =>
+        policy.blockedGenres!.has(genreId)
+      );
+      evaluations.push({
+        ruleId: EligibilityRuleId.GUARDIAN_BLOCKED_GENRE,
+        passed: blocked.length === 0,
+        values: { blockedGenres: blocked },
+      });
+    }
+
+    if (policy.lowIntensityOnly) {
+      const isLowIntensity = game.features.has(GameFeature.LOW_INTENSITY);
+      evaluations.push({
+        ruleId: EligibilityRuleId.GUARDIAN_LOW_INTENSITY_ONLY,
+        passed: isLowIntensity,
+        values: { isLowIntensity },
+      });
+    }
+
+    return evaluations;
   }
 
   /**
    * Validate a single game for eligibility
    */
-  isEligible(game: Game, userContext: UserContext): boolean {
-    return (
-      this.isAgeBandEligible(game, userContext.ageBand) &&
-      this.passesModeration(game) &&
-      this.checkFeatureRestrictions(game, userContext.ageBand)
-    );
+  isEligible(
+    game: Game,
+    userContext: EligibilityAudience,
+    guardianPolicy?: GuardianPolicy
+  ): boolean {
+    return this.explainEligibility(game, userContext, guardianPolicy).eligible;
   }
 }
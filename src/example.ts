@@ -8,7 +8,10 @@ import {
   RecommendationEngine,
   CandidateDataSource,
   ChartDataSource,
+  GameCatalog,
   GameMetrics,
+  WindowedMetrics,
+  ChartWindow,
   Game,
   UserContext,
   UserHistory,
@@ -16,13 +19,18 @@ import {
   Platform,
   GameFeature,
   ChartType,
+  ExplanationService,
   DEFAULT_CONFIG,
 } from './index';
 
 /**
- * Mock implementation of CandidateDataSource for demonstration
+ * Mock implementation of CandidateDataSource and GameCatalog for demonstration
+ * Games are generated once per ID, so the catalog returns the same games the
+ * candidate sources served
  */
-class MockCandidateDataSource implements CandidateDataSource {
+class MockCandidateDataSource implements CandidateDataSource, GameCatalog {
+  private games = new Map<string, Game>();
+
   async getTopGamesByGenres(genreVector: Map<number, number>, limit: number): Promise<Game[]> {
     return this.createMockGames(limit, false);
   }
@@ -43,51 +51,67 @@ class MockCandidateDataSource implements CandidateDataSource {
     return this.createMockGames(limit, true);
   }
 
+  async getGamesByIds(gameIds: string[]): Promise<Game[]> {
+    return gameIds.map((gameId) => this.getOrCreateGame(gameId, false));
+  }
+
   private createMockGames(count: number, sponsored: boolean): Game[] {
     const games: Game[] = [];
     for (let i = 0; i < count; i++) {
-      const genreVector = new Map<number, number>();
-      genreVector.set(1, Math.random());
-      genreVector.set(2, Math.random());
-
-      const features = new Set<GameFeature>();
-      if (Math.random() > 0.5) features.add(GameFeature.MULTIPLAYER);
-      if (Math.random() > 0.7) features.add(GameFeature.SINGLE_PLAYER);
-      if (Math.random() > 0.8) features.add(GameFeature.LOW_INTENSITY);
-
-      const playsByAgeBand = new Map<AgeBand, number>();
-      playsByAgeBand.set(AgeBand.UNDER_9, Math.floor(Math.random() * 10000));
-      playsByAgeBand.set(AgeBand.AGE_9_TO_12, Math.floor(Math.random() * 15000));
-      playsByAgeBand.set(AgeBand.AGE_13_PLUS, Math.floor(Math.random() * 20000));
-
-      const releaseDate = new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000);
-      const creationDate = new Date(releaseDate.getTime() - Math.random() * 90 * 24 * 60 * 60 * 1000);
-      const likes = Math.floor(Math.random() * 5000);
-      const dislikes = Math.floor(Math.random() * likes * 0.3); // Dislikes are typically lower
-
-      games.push({
-        gameId: `game-${sponsored ? 'sponsored-' : ''}${i}`,
-        minAgeBand: AgeBand.UNDER_9,
-        moderationScore: 0.85 + Math.random() * 0.15,
-        creationDate,
-        releaseDate,
-        isSponsored: sponsored,
-        sponsoredAmount: sponsored ? Math.floor(Math.random() * 5000) + 500 : 0, // $500-$5500 for sponsored
-        genreVector,
-        features,
-        playsByAgeBand,
-        totalSessions: Math.floor(Math.random() * 50000),
-        uniquePlayers: Math.floor(Math.random() * 10000),
-        currentSessions: Math.floor(Math.random() * 1000),
-        totalRevenue: Math.floor(Math.random() * 100000),
-        likes,
-        dislikes,
-        favourites: Math.floor(likes * (0.1 + Math.random() * 0.2)), // 10-30% of likes become favourites
-        totalPlays: Math.floor(Math.random() * 30000),
-      });
+      games.push(this.getOrCreateGame(`game-${sponsored ? 'sponsored-' : ''}${i}`, sponsored));
     }
     return games;
   }
+
+  private getOrCreateGame(gameId: string, sponsored: boolean): Game {
+    const existing = this.games.get(gameId);
+    if (existing) {
+      return existing;
+    }
+
+    const genreVector = new Map<number, number>();
+    genreVector.set(1, Math.random());
+    genreVector.set(2, Math.random());
+
+    const features = new Set<GameFeature>();
+    if (Math.random() > 0.5) features.add(GameFeature.MULTIPLAYER);
+    if (Math.random() > 0.7) features.add(GameFeature.SINGLE_PLAYER);
+    if (Math.random() > 0.8) features.add(GameFeature.LOW_INTENSITY);
+
+    const playsByAgeBand = new Map<AgeBand, number>();
+    playsByAgeBand.set(AgeBand.UNDER_9, Math.floor(Math.random() * 10000));
+    playsByAgeBand.set(AgeBand.AGE_9_TO_12, Math.floor(Math.random() * 15000));
+    playsByAgeBand.set(AgeBand.AGE_13_PLUS, Math.floor(Math.random() * 20000));
+
+    const releaseDate = new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000);
+    const creationDate = new Date(releaseDate.getTime() - Math.random() * 90 * 24 * 60 * 60 * 1000);
+    const likes = Math.floor(Math.random() * 5000);
+    const dislikes = Math.floor(Math.random() * likes * 0.3); // Dislikes are typically lower
+
+    const game: Game = {
+      gameId,
+      minAgeBand: AgeBand.UNDER_9,
+      moderationScore: 0.85 + Math.random() * 0.15,
+      creationDate,
+      releaseDate,
+      isSponsored: sponsored,
+      sponsoredAmount: sponsored ? Math.floor(Math.random() * 5000) + 500 : 0, // $500-$5500 for sponsored
+      genreVector,
+      features,
+      supportedPlatforms: new Set([Platform.PC, Platform.MOBILE, Platform.CONSOLE]),
+      playsByAgeBand,
+      totalSessions: Math.floor(Math.random() * 50000),
+      uniquePlayers: Math.floor(Math.random() * 10000),
+      currentSessions: Math.floor(Math.random() * 1000),
+      totalRevenue: Math.floor(Math.random() * 100000),
+      likes,
+      dislikes,
+      favourites: Math.floor(likes * (0.1 + Math.random() * 0.2)), // 10-30% of likes become favourites
+      totalPlays: Math.floor(Math.random() * 30000),
+    };
+    this.games.set(gameId, game);
+    return game;
+  }
 }
 
 /**
@@ -112,9 +136,32 @@ class MockChartDataSource implements ChartDataSource {
       dislikes: Math.floor(Math.random() * likes * 0.3),
       favourites: Math.floor(likes * (0.1 + Math.random() * 0.2)),
       totalPlays: Math.floor(Math.random() * 30000),
+      playsByPlatform: new Map([[platform, Math.floor(Math.random() * 15000)]]),
     };
   }
 
+  async getWindowedMetrics(
+    gameIds: string[],
+    ageBand: AgeBand,
+    platform: Platform,
+    window: ChartWindow,
+    asOf: Date
+  ): Promise<Map<string, WindowedMetrics>> {
+    const days = window.durationMs / (24 * 60 * 60 * 1000);
+    const metrics = new Map<string, WindowedMetrics>();
+    for (const gameId of gameIds) {
+      metrics.set(gameId, {
+        plays: Math.floor(Math.random() * 700 * days),
+        previousPlays: Math.floor(Math.random() * 600 * days),
+        historicalPlays: [1, 2, 3].map(() => Math.floor(Math.random() * 600 * days)),
+        sessions: Math.floor(Math.random() * 1500 * days),
+        uniquePlayers: Math.floor(Math.random() * 300 * days),
+        revenue: Math.floor(Math.random() * 3000 * days),
+      });
+    }
+    return metrics;
+  }
+
   async fetchGamesByAgeAndPlatform(
     ageBand: AgeBand,
     platform: Platform
@@ -139,9 +186,12 @@ async function example() {
     DEFAULT_CONFIG,
     candidateDataSource,
     chartDataSource,
-    true // Enable sponsored content
+    true, // Enable sponsored content
+    { gameCatalog: candidateDataSource } // Game catalog for history lookups
   );
 
+  const explanationService = new ExplanationService(DEFAULT_CONFIG.weights);
+
   // Create user context
   const userGenreVector = new Map<number, number>();
   userGenreVector.set(1, 0.8); // Action games
@@ -175,6 +225,23 @@ async function example() {
     console.log(`     ${bucket.games.length} games: ${bucket.games.slice(0, 3).join(', ')}${bucket.games.length > 3 ? '...' : ''}\n`);
   }
 
+  // Explain the top recommendation
+  const topBucket = recommendations[0];
+  const topGameId = topBucket?.games[0];
+  if (topGameId) {
+    const explanation = await engine.explainGame(
+      topBucket,
+      topGameId,
+      userContext,
+      userHistory
+    );
+    console.log(`💡 Why ${topGameId}?`);
+    for (const reason of explanation.reasons) {
+      console.log(`  - ${explanationService.render(reason)}`);
+    }
+    console.log();
+  }
+
   // Generate charts
   console.log('Generating algorithmic charts...\n');
 
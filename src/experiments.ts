@@ -0,0 +1,397 @@
+/**
+ * Experiments Module
+ *
+ * A/B tests of ranking configs. Users are assigned to variants by hashing
+ * their user ID with an experiment salt, so assignment is deterministic and
+ * nothing new is stored about the user.
+ */
+
+import { createHash } from 'crypto';
+import { RecommendationEngine } from './recommendationEngine';
+import { ConfigLoader, ConfigPatch, mergeConfig } from './configLoader';
+import { TracedRecommendations } from './pipelineTrace';
+import {
+  UserId,
+  UserContext,
+  UserHistory,
+  GuardianPolicy,
+  RecommendationBucket,
+  RecommendationConfig,
+} from './types';
+
+/**
+ * One arm of an experiment
+ * A control variant has empty overrides
+ */
+export interface ExperimentVariant {
+  id: string;
+  allocation: number; // Relative share of the experiment's traffic
+  overrides: ConfigPatch;
+}
+
+/**
+ * An experiment comparing config variants
+ */
+export interface Experiment {
+  id: string;
+  salt: string; // Picks the variant; change it to reshuffle users
+  trafficShare: number; // Share of the layer's traffic, 0 to 1
+  variants: ExperimentVariant[];
+}
+
+/**
+ * Experiments in one layer are mutually exclusive: a user is in at most one
+ * of them. Layers are independent, so a user can be in one experiment per
+ * layer; layers should override different settings, and later layers win
+ * where they overlap.
+ */
+export interface ExperimentLayer {
+  id: string;
+  salt: string; // Picks the experiment within the layer
+  experiments: Experiment[];
+}
+
+/**
+ * Users in the holdout get the base config and no experiments
+ */
+export interface ExperimentHoldout {
+  id: string;
+  salt: string;
+  share: number; // Share of all traffic, 0 to 1
+}
+
+/**
+ * Every running experiment
+ */
+export interface ExperimentSetup {
+  layers: ExperimentLayer[];
+  holdout?: ExperimentHoldout;
+}
+
+/**
+ * A user's variant in one layer
+ */
+export interface ExperimentExposure {
+  layerId: string;
+  experimentId: string;
+  variantId: string;
+}
+
+/**
+ * All of a user's experiment assignments
+ */
+export interface ExperimentAssignment {
+  userId: UserId;
+  holdoutId?: string; // Set when the user is held out of every experiment
+  exposures: ExperimentExposure[];
+}
+
+/**
+ * Recommendations with the experiments that served them
+ * Log the assignment as an exposure to join with outcomes
+ */
+export interface ExperimentRecommendations {
+  buckets: RecommendationBucket[];
+  assignment: ExperimentAssignment;
+}
+
+export type TracedExperimentRecommendations = TracedRecommendations & {
+  assignment: ExperimentAssignment;
+};
+
+/**
+ * Builds an engine for a variant's config
+ * Should share data sources and stores with the base engine
+ */
+export type EngineFactory = (config: RecommendationConfig) => RecommendationEngine;
+
+/**
+ * Position of a user in [0, 1) for a salt
+ * The first 32 bits of SHA-256 are uniform and stable across processes
+ */
+export function hashToUnitInterval(userId: UserId, salt: string): number {
+  const digest = createHash('sha256').update(`${salt}:${userId}`).digest();
+  return digest.readUInt32BE(0) / 0x100000000;
+}
+
+/**
+ * Assigns users to experiment variants
+ */
+export class ExperimentAssigner {
+  constructor(private setup: ExperimentSetup) {
+    this.validate(setup);
+  }
+
+  assign(userId: UserId): ExperimentAssignment {
+    const { holdout } = this.setup;
+
+    if (holdout && hashToUnitInterval(userId, holdout.salt) < holdout.share) {
+      return { userId, holdoutId: holdout.id, exposures: [] };
+    }
+
+    const exposures: ExperimentExposure[] = [];
+
+    for (const layer of this.setup.layers) {
+      const experiment = this.pickExperiment(layer, hashToUnitInterval(userId, layer.salt));
+      if (!experiment) {
+        continue;
+      }
+
+      const variant = this.pickVariant(
+        experiment,
+        hashToUnitInterval(userId, experiment.salt)
+      );
+      exposures.push({
+        layerId: layer.id,
+        experimentId: experiment.id,
+        variantId: variant.id,
+      });
+    }
+
+    return { userId, exposures };
+  }
+
+  /**
+   * Config overrides for an assignment, in layer order
+   */
+  getOverrides(assignment: ExperimentAssignment): ConfigPatch[] {
+    return assignment.exposures.map((exposure) => this.getVariant(exposure).overrides);
+  }
+
+  /**
+   * Experiments take consecutive slices of the layer's traffic
+   */
+  private pickExperiment(layer: ExperimentLayer, position: number): Experiment | undefined {
+    let end = 0;
+
+    for (const experiment of layer.experiments) {
+      end += experiment.trafficShare;
+      if (position < end) {
+        return experiment;
+      }
+    }
+
+    return undefined; // Not in any experiment of this layer
+  }
+
+  private pickVariant(experiment: Experiment, position: number): ExperimentVariant {
+    const total = experiment.variants.reduce((sum, variant) => sum + variant.allocation, 0);
+    let end = 0;
+
+    for (const variant of experiment.variants) {
+      end += variant.allocation / total;
+      if (position < end) {
+        return variant;
+      }
+    }
+
+    // Rounding can leave the last slice just short of 1
+    return experiment.variants[experiment.variants.length - 1];
+  }
+
+  private getVariant(exposure: ExperimentExposure): ExperimentVariant {
+    const variant = this.setup.layers
+      .find((layer) => layer.id === exposure.layerId)
+      ?.experiments.find((experiment) => experiment.id === exposure.experimentId)
+      ?.variants.find((candidate) => candidate.id === exposure.variantId);
+
+    if (!variant) {
+      throw new Error(
+        `Unknown experiment variant: ${exposure.layerId}/${exposure.experimentId}/${exposure.variantId}`
+      );
+    }
+
+    return variant;
+  }
+
+  /**
+   * Check IDs and traffic shares, listing every problem found
+   */
+  private validate(setup: ExperimentSetup): void {
+    const errors: string[] = [];
+    const layerIds = new Set<string>();
+    const experimentIds = new Set<string>();
+
+    if (setup.holdout && !this.isShare(setup.holdout.share)) {
+      errors.push(`holdout ${setup.holdout.id}: share must be between 0 and 1`);
+    }
+
+    for (const layer of setup.layers) {
+      if (layerIds.has(layer.id)) {
+        errors.push(`layer ${layer.id}: duplicate layer ID`);
+      }
+      layerIds.add(layer.id);
+
+      let layerShare = 0;
+      for (const experiment of layer.experiments) {
+        const path = `layer ${layer.id}, experiment ${experiment.id}`;
+
+        if (experimentIds.has(experiment.id)) {
+          errors.push(`${path}: duplicate experiment ID`);
+        }
+        experimentIds.add(experiment.id);
+
+        if (!this.isShare(experiment.trafficShare)) {
+          errors.push(`${path}: trafficShare must be between 0 and 1`);
+        }
+        layerShare += experiment.trafficShare;
+
+        if (experiment.variants.length === 0) {
+          errors.push(`${path}: at least one variant is required`);
+        }
+
+        const variantIds = new Set<string>();
+        for (const variant of experiment.variants) {
+          if (variantIds.has(variant.id)) {
+            errors.push(`${path}: duplicate variant ID ${variant.id}`);
+          }
+          variantIds.add(variant.id);
+
+          if (!Number.isFinite(variant.allocation) || variant.allocation <= 0) {
+            errors.push(`${path}, variant ${variant.id}: allocation must be positive`);
+          }
+        }
+      }
+
+      if (layerShare > 1 + Number.EPSILON) {
+        errors.push(`layer ${layer.id}: experiment traffic shares add up to more than 1`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid experiment setup:\n  - ${errors.join('\n  - ')}`);
+    }
+  }
+
+  private isShare(value: number): boolean {
+    return Number.isFinite(value) && value >= 0 && value <= 1;
+  }
+}
+
+/**
+ * Serves recommendations through the engine for each user's variants
+ *
+ * One engine is built per combination of variants actually served and
+ * reused for later requests. Users in no experiment share the base engine.
+ * Variant engines copy the base config when first built, so create a new
+ * runner after updating the base engine's config.
+ */
+export class ExperimentRunner {
+  private assigner: ExperimentAssigner;
+  private engines = new Map<string, RecommendationEngine>();
+
+  constructor(
+    private baseEngine: RecommendationEngine,
+    setup: ExperimentSetup,
+    private createEngine: EngineFactory
+  ) {
+    this.assigner = new ExperimentAssigner(setup);
+    this.validateVariants(setup);
+  }
+
+  assign(userId: UserId): ExperimentAssignment {
+    return this.assigner.assign(userId);
+  }
+
+  async generateRecommendations(
+    userContext: UserContext,
+    userHistory: UserHistory,
+    guardianPolicy?: GuardianPolicy,
+    asOf?: Date
+  ): Promise<ExperimentRecommendations> {
+    const assignment = this.assign(userContext.userId);
+    const buckets = await this.getEngine(assignment).generateRecommendations(
+      userContext,
+      userHistory,
+      guardianPolicy,
+      asOf
+    );
+
+    return { buckets, assignment };
+  }
+
+  async generateRecommendationsWithTrace(
+    userContext: UserContext,
+    userHistory: UserHistory,
+    guardianPolicy?: GuardianPolicy,
+    asOf?: Date
+  ): Promise<TracedExperimentRecommendations> {
+    const assignment = this.assign(userContext.userId);
+    const result = await this.getEngine(assignment).generateRecommendationsWithTrace(
+      userContext,
+      userHistory,
+      guardianPolicy,
+      asOf
+    );
+
+    return { ...result, assignment };
+  }
+
+  /**
+   * Engine with the assignment's overrides applied to the base config
+   */
+  getEngine(assignment: ExperimentAssignment): RecommendationEngine {
+    if (assignment.exposures.length === 0) {
+      return this.baseEngine;
+    }
+
+    const key = assignment.exposures
+      .map((exposure) => `${exposure.experimentId}:${exposure.variantId}`)
+      .join('|');
+
+    let engine = this.engines.get(key);
+    if (!engine) {
+      engine = this.createEngine(this.buildConfig(this.assigner.getOverrides(assignment)));
+      this.engines.set(key, engine);
+    }
+
+    return engine;
+  }
+
+  private buildConfig(overrides: ConfigPatch[]): RecommendationConfig {
+    return overrides.reduce<RecommendationConfig>(
+      (config, patch) => mergeConfig(config, patch),
+      this.baseEngine.getConfig()
+    );
+  }
+
+  /**
+   * Reject variant combinations whose overrides give an invalid config up
+   * front, rather than on the first request assigned to them
+   * A user can get one variant from every layer, or none from a layer whose
+   * experiments leave traffic unassigned, so every such combination is checked
+   */
+  private validateVariants(setup: ExperimentSetup): void {
+    const loader = new ConfigLoader();
+    let combinations: Array<Array<[Experiment, ExperimentVariant]>> = [[]];
+
+    for (const layer of setup.layers) {
+      const choices = layer.experiments.flatMap((experiment) =>
+        experiment.variants.map((variant): [Experiment, ExperimentVariant] => [experiment, variant])
+      );
+      const layerShare = layer.experiments.reduce((sum, e) => sum + e.trafficShare, 0);
+
+      combinations = combinations.flatMap((combination) => [
+        ...(layerShare < 1 ? [combination] : []),
+        ...choices.map((choice) => [...combination, choice]),
+      ]);
+    }
+
+    for (const combination of combinations) {
+      if (combination.length === 0) {
+        continue;
+      }
+
+      try {
+        loader.validate(this.buildConfig(combination.map(([, variant]) => variant.overrides)));
+      } catch (error) {
+        const served = combination
+          .map(([experiment, variant]) => `experiment ${experiment.id}, variant ${variant.id}`)
+          .join(' with ');
+        throw new Error(
+          `${served.charAt(0).toUpperCase()}${served.slice(1)}: ${(error as Error).message}`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Explanation Module
+ *
+ * Turns a score breakdown into "Why am I seeing this?" reasons that
+ * players, parents and support agents can read.
+ */
+
+import {
+  ScoredGame,
+  RecommendationConfig,
+  UserContext,
+  GenreId,
+  GameId,
+  SignalId,
+} from './types';
+import { BuiltInSignal } from './scoringSignals';
+
+/**
+ * Stable reason codes, one per positive scoring signal plus bucket-level
+ * reasons for games served from charts
+ */
+export enum ReasonCode {
+  GENRE_MATCH = 'GENRE_MATCH',
+  POPULAR_WITH_AGE_BAND = 'POPULAR_WITH_AGE_BAND',
+  SIMILAR_TO_PLAYED = 'SIMILAR_TO_PLAYED',
+  SIMILAR_TO_FAVOURITES = 'SIMILAR_TO_FAVOURITES',
+  HIGHLY_RATED = 'HIGHLY_RATED',
+  NEW_RELEASE = 'NEW_RELEASE',
+  SPONSORED = 'SPONSORED',
+  TRENDING = 'TRENDING',
+}
+
+/**
+ * Message templates per reason code
+ * Placeholders like {genreName} are filled in when rendering
+ */
+export type ReasonTemplates = Record<ReasonCode, string>;
+
+/**
+ * Default English templates
+ */
+export const DEFAULT_REASON_TEMPLATES: ReasonTemplates = {
+  [ReasonCode.GENRE_MATCH]: 'Because you like {genreName} games',
+  [ReasonCode.POPULAR_WITH_AGE_BAND]: 'Popular with players your age',
+  [ReasonCode.SIMILAR_TO_PLAYED]: "Similar to games you've enjoyed",
+  [ReasonCode.SIMILAR_TO_FAVOURITES]: 'Similar to your favourites',
+  [ReasonCode.HIGHLY_RATED]: 'Highly rated by players',
+  [ReasonCode.NEW_RELEASE]: 'Recently released',
+  [ReasonCode.SPONSORED]: 'Sponsored',
+  [ReasonCode.TRENDING]: 'Trending now',
+};
+
+/**
+ * A single structured reason
+ */
+export interface RecommendationReason {
+  code: ReasonCode;
+  contribution: number; // Weighted contribution to the final score; 0 for bucket reasons
+  params: Record<string, string | number>;
+}
+
+/**
+ * Explanation for one recommended game
+ */
+export interface RecommendationExplanation {
+  gameId: GameId;
+  score: number;
+  reasons: RecommendationReason[];
+}
+
+/**
+ * Options for rendering reasons into text
+ */
+export interface RenderOptions {
+  templates?: ReasonTemplates;
+  genreNames?: Map<GenreId, string>;
+}
+
+export interface ExplanationOptions {
+  minRatedReactions: number; // Likes + dislikes needed before "Highly rated" is shown
+}
+
+const DEFAULT_EXPLANATION_OPTIONS: ExplanationOptions = {
+  minRatedReactions: 20,
+};
+
+/**
+ * Breakdown signals that can be surfaced as reasons
+ * Penalties only lower a score, so they are never shown as reasons
+ * Custom signals have no reason code and are not surfaced
+ */
+const REASON_SIGNALS: Array<[SignalId, ReasonCode]> = [
+  [BuiltInSignal.GENRE_AFFINITY, ReasonCode.GENRE_MATCH],
+  [BuiltInSignal.AGE_BAND_POPULARITY, ReasonCode.POPULAR_WITH_AGE_BAND],
+  [BuiltInSignal.ENGAGEMENT_SIMILARITY, ReasonCode.SIMILAR_TO_PLAYED],
+  [BuiltInSignal.FAVOURITE_AFFINITY, ReasonCode.SIMILAR_TO_FAVOURITES],
+  [BuiltInSignal.COMMUNITY_RATING, ReasonCode.HIGHLY_RATED],
+  [BuiltInSignal.RECENCY_BOOST, ReasonCode.NEW_RELEASE],
+  [BuiltInSignal.SPONSORED_BOOST, ReasonCode.SPONSORED],
+];
+
+/**
+ * Builds explanations from score breakdowns
+ */
+export class ExplanationService {
+  private options: ExplanationOptions;
+
+  constructor(
+    private weights: RecommendationConfig['weights'],
+    options: Partial<ExplanationOptions> = {}
+  ) {
+    this.options = {
+      minRatedReactions:
+        options.minRatedReactions ?? DEFAULT_EXPLANATION_OPTIONS.minRatedReactions,
+    };
+  }
+
+  /**
+   * Explain a scored game with its top contributing reasons
+   * Sponsorship is always disclosed, even when it is not a top reason or
+   * the sponsored weight is zero
+   */
+  explain(
+    scoredGame: ScoredGame,
+    userContext?: UserContext,
+    maxReasons: number = 3
+  ): RecommendationExplanation {
+    const candidates: RecommendationReason[] = [];
+
+    for (const [signal, code] of REASON_SIGNALS) {
+      const contribution =
+        (this.weights[signal] ?? 0) * (scoredGame.breakdown[signal] ?? 0);
+      if (contribution <= 0) {
+        continue;
+      }
+      if (code === ReasonCode.HIGHLY_RATED && !this.hasEnoughReactions(scoredGame)) {
+        continue;
+      }
+
+      candidates.push({
+        code,
+        contribution,
+        params: this.buildParams(code, scoredGame, userContext),
+      });
+    }
+
+    candidates.sort((a, b) => b.contribution - a.contribution);
+
+    const reasons = candidates.slice(0, maxReasons);
+    const sponsored =
+      candidates.find((r) => r.code === ReasonCode.SPONSORED) ??
+      this.disclosure(scoredGame);
+    if (sponsored && !reasons.includes(sponsored)) {
+      reasons.push(sponsored);
+    }
+
+    return {
+      gameId: scoredGame.game.gameId,
+      score: scoredGame.score,
+      reasons,
+    };
+  }
+
+  /**
+   * Explain a game served for a bucket-level reason, e.g. a chart
+   * The bucket reason leads. Personal reasons follow when the bucket was
+   * re-ranked for the user; an empty breakdown adds none. Sponsored games
+   * are always disclosed.
+   */
+  explainWithBucketReason(
+    code: ReasonCode,
+    scoredGame: ScoredGame,
+    userContext?: UserContext,
+    maxReasons: number = 3
+  ): RecommendationExplanation {
+    const personal = this.explain(scoredGame, userContext, maxReasons);
+    const reasons: RecommendationReason[] = [
+      { code, contribution: 0, params: {} },
+      ...personal.reasons.filter((reason) => reason.code !== code),
+    ].slice(0, maxReasons);
+
+    const sponsored = personal.reasons.find((reason) => reason.code === ReasonCode.SPONSORED);
+    if (sponsored && !reasons.includes(sponsored)) {
+      reasons.push(sponsored);
+    }
+
+    return { ...personal, reasons };
+  }
+
+  /**
+   * Render a reason using the given (or default) templates
+   */
+  render(reason: RecommendationReason, options: RenderOptions = {}): string {
+    const templates = options.templates ?? DEFAULT_REASON_TEMPLATES;
+    const params: Record<string, string | number> = { ...reason.params };
+
+    if (typeof params.genreId === 'number') {
+      params.genreName =
+        options.genreNames?.get(params.genreId) ?? `Genre ${params.genreId}`;
+    }
+
+    return templates[reason.code].replace(/\{(\w+)\}/g, (match, key) =>
+      key in params ? String(params[key]) : match
+    );
+  }
+
+  /**
+   * Some estimators rate unreviewed games at their prior, so a rating alone
+   * does not show players actually like a game
+   */
+  private hasEnoughReactions(scoredGame: ScoredGame): boolean {
+    const { likes, dislikes } = scoredGame.game;
+    return likes + dislikes >= this.options.minRatedReactions;
+  }
+
+  /**
+   * Sponsored reason for a sponsored game whose boost contributed nothing
+   */
+  private disclosure(scoredGame: ScoredGame): RecommendationReason | undefined {
+    return scoredGame.game.isSponsored
+      ? { code: ReasonCode.SPONSORED, contribution: 0, params: {} }
+      : undefined;
+  }
+
+  /**
+   * Build template parameters for a reason
+   */
+  private buildParams(
+    code: ReasonCode,
+    scoredGame: ScoredGame,
+    userContext?: UserContext
+  ): Record<string, string | number> {
+    if (code !== ReasonCode.GENRE_MATCH) {
+      return {};
+    }
+
+    const genreId = this.topSharedGenre(scoredGame, userContext);
+    return genreId === undefined ? {} : { genreId };
+  }
+
+  /**
+   * Genre contributing most to genre affinity
+   * Falls back to the game's strongest genre without a user vector
+   */
+  private topSharedGenre(
+    scoredGame: ScoredGame,
+    userContext?: UserContext
+  ): GenreId | undefined {
+    let bestGenre: GenreId | undefined;
+    let bestWeight = 0;
+
+    for (const [genreId, weight] of scoredGame.game.genreVector) {
+      const userWeight = userContext ? userContext.genreVector.get(genreId) || 0 : 1;
+      const combined = weight * userWeight;
+
+      if (combined > bestWeight) {
+        bestWeight = combined;
+        bestGenre = genreId;
+      }
+    }
+
+    return bestGenre;
+  }
+}
@@ -0,0 +1,464 @@
+/**
+ * Feedback Ingestion Module
+ *
+ * Folds play-session, reaction and "not interested" events into the
+ * per-user aggregates that make up UserHistory. Raw events are short-lived:
+ * they are buffered until the next fold and deleted once folded, and never
+ * stored past the raw event retention window even if folding falls behind.
+ * Retention runs from when an event was buffered, not when it occurred, so
+ * late events from offline clients are still folded.
+ */
+
+import { GameId, GenreId, UserId, UserHistory } from './types';
+import { DEFAULT_CONFIG } from './config';
+import { systemClock } from './clock';
+
+export enum FeedbackEventType {
+  PLAY_SESSION = 'PLAY_SESSION',
+  LIKE = 'LIKE',
+  DISLIKE = 'DISLIKE',
+  FAVOURITE = 'FAVOURITE',
+  UNFAVOURITE = 'UNFAVOURITE',
+  NOT_INTERESTED = 'NOT_INTERESTED',
+  NOT_INTERESTED_GENRE = 'NOT_INTERESTED_GENRE',
+}
+
+/**
+ * Feedback about a single game
+ */
+export interface GameFeedbackEvent {
+  type: Exclude<FeedbackEventType, FeedbackEventType.NOT_INTERESTED_GENRE>;
+  userId: UserId;
+  gameId: GameId;
+  occurredAt: Date;
+  durationMinutes?: number; // Required for PLAY_SESSION
+}
+
+/**
+ * "Not interested" in a whole genre
+ */
+export interface GenreFeedbackEvent {
+  type: FeedbackEventType.NOT_INTERESTED_GENRE;
+  userId: UserId;
+  genreId: GenreId;
+  occurredAt: Date;
+}
+
+export type FeedbackEvent = GameFeedbackEvent | GenreFeedbackEvent;
+
+/**
+ * An event waiting to be folded
+ */
+export interface BufferedEvent {
+  event: FeedbackEvent;
+  bufferedAt: Date; // Retention is measured from here
+}
+
+/**
+ * Play on one UTC day
+ * Days are the finest time resolution kept in aggregates
+ */
+export interface DailyPlay {
+  day: number; // Days since the Unix epoch
+  sessions: number;
+  minutes: number;
+}
+
+/**
+ * Everything kept about one user's engagement with one game
+ */
+export interface GameEngagement {
+  gameId: GameId;
+  dailyPlay: DailyPlay[]; // Oldest first, within the play window
+  reaction?: FeedbackEventType.LIKE | FeedbackEventType.DISLIKE;
+  reactedAt?: Date; // Latest like or dislike; older ones are ignored, even on the same day
+  favourited: boolean;
+  favouritedAt?: Date; // Latest favourite or unfavourite
+  dismissedAt?: Date; // Latest "not interested"; one value per game, so kept exactly
+}
+
+/**
+ * A genre the user marked "not interested"
+ */
+export interface GenreDismissal {
+  genreId: GenreId;
+  dismissedAt: Date; // Kept exactly so the dismissal fades from when it was made
+}
+
+/**
+ * Everything kept about one user
+ */
+export interface UserAggregates {
+  games: GameEngagement[];
+  dismissedGenres: GenreDismissal[];
+}
+
+/**
+ * Storage backend for pending events and aggregates
+ * Pending events are read and acknowledged per user, so a failed save
+ * leaves that user's events buffered for the next fold
+ */
+export interface FeedbackStore {
+  appendEvents(events: BufferedEvent[]): Promise<void>;
+  getPendingUserIds(): Promise<UserId[]>;
+  getPendingEvents(userId: UserId): Promise<BufferedEvent[]>; // In buffering order
+  acknowledgeEvents(userId: UserId, count: number): Promise<void>; // Deletes the user's first `count` pending events
+  getAggregates(userId: UserId): Promise<UserAggregates | undefined>;
+  saveAggregates(userId: UserId, aggregates: UserAggregates): Promise<void>; // Replaces the user's aggregates
+}
+
+/**
+ * In-memory feedback store, suitable for a single process
+ */
+export class InMemoryFeedbackStore implements FeedbackStore {
+  private events = new Map<UserId, BufferedEvent[]>();
+  private aggregates = new Map<UserId, UserAggregates>();
+
+  async appendEvents(events: BufferedEvent[]): Promise<void> {
+    for (const buffered of events) {
+      const userEvents = this.events.get(buffered.event.userId) ?? [];
+      userEvents.push(buffered);
+      this.events.set(buffered.event.userId, userEvents);
+    }
+  }
+
+  async getPendingUserIds(): Promise<UserId[]> {
+    return [...this.events.keys()];
+  }
+
+  async getPendingEvents(userId: UserId): Promise<BufferedEvent[]> {
+    return [...(this.events.get(userId) ?? [])];
+  }
+
+  async acknowledgeEvents(userId: UserId, count: number): Promise<void> {
+    const remaining = (this.events.get(userId) ?? []).slice(count);
+    if (remaining.length === 0) {
+      this.events.delete(userId);
+    } else {
+      this.events.set(userId, remaining);
+    }
+  }
+
+  async getAggregates(userId: UserId): Promise<UserAggregates | undefined> {
+    return this.aggregates.get(userId);
+  }
+
+  async saveAggregates(userId: UserId, aggregates: UserAggregates): Promise<void> {
+    if (aggregates.games.length === 0 && aggregates.dismissedGenres.length === 0) {
+      this.aggregates.delete(userId);
+    } else {
+      this.aggregates.set(userId, aggregates);
+    }
+  }
+
+  /**
+   * Number of events waiting to be folded
+   */
+  getPendingCount(): number {
+    return [...this.events.values()].reduce((sum, events) => sum + events.length, 0);
+  }
+}
+
+export interface FeedbackIngestionOptions {
+  longPlayMinutes: number; // Minutes in the play window to count as a long-play game
+  heavilyPlayedSessions: number; // Sessions in the play window to count as heavily played
+  playWindowDays: number; // Play older than this is dropped from aggregates
+  dismissalRetentionDays: number; // Keep at least the engine's dismissals.expiryDays
+  rawEventRetentionHours: number; // Unfolded events buffered longer than this are discarded
+}
+
+const DEFAULT_FEEDBACK_INGESTION_OPTIONS: FeedbackIngestionOptions = {
+  longPlayMinutes: 60,
+  heavilyPlayedSessions: 20,
+  playWindowDays: 30,
+  dismissalRetentionDays: DEFAULT_CONFIG.dismissals.expiryDays,
+  rawEventRetentionHours: 24,
+};
+
+/**
+ * Result of one fold
+ */
+export interface FoldSummary {
+  folded: number; // Events folded into aggregates
+  expired: number; // Events discarded unfolded, buffered past the retention window
+  usersUpdated: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const HOUR_MS = 1000 * 60 * 60;
+
+/**
+ * Maintains UserHistory aggregates from feedback events
+ */
+export class FeedbackIngestor {
+  private options: FeedbackIngestionOptions;
+
+  constructor(
+    private store: FeedbackStore,
+    options: Partial<FeedbackIngestionOptions> = {}
+  ) {
+    this.options = {
+      longPlayMinutes:
+        options.longPlayMinutes ?? DEFAULT_FEEDBACK_INGESTION_OPTIONS.longPlayMinutes,
+      heavilyPlayedSessions:
+        options.heavilyPlayedSessions ??
+        DEFAULT_FEEDBACK_INGESTION_OPTIONS.heavilyPlayedSessions,
+      playWindowDays:
+        options.playWindowDays ?? DEFAULT_FEEDBACK_INGESTION_OPTIONS.playWindowDays,
+      dismissalRetentionDays:
+        options.dismissalRetentionDays ??
+        DEFAULT_FEEDBACK_INGESTION_OPTIONS.dismissalRetentionDays,
+      rawEventRetentionHours:
+        options.rawEventRetentionHours ??
+        DEFAULT_FEEDBACK_INGESTION_OPTIONS.rawEventRetentionHours,
+    };
+  }
+
+  /**
+   * Buffer events until the next fold
+   * Throws an error listing every invalid event; nothing is buffered then
+   */
+  async record(events: FeedbackEvent[], bufferedAt: Date = systemClock.now()): Promise<void> {
+    const errors: string[] = [];
+
+    events.forEach((event, index) => {
+      if (!Object.values(FeedbackEventType).includes(event.type)) {
+        errors.push(`events[${index}].type must be a feedback event type`);
+      }
+      if (Number.isNaN(event.occurredAt.getTime())) {
+        errors.push(`events[${index}].occurredAt must be a valid date`);
+      }
+
+      if (event.type === FeedbackEventType.NOT_INTERESTED_GENRE) {
+        if (!Number.isInteger(event.genreId)) {
+          errors.push(`events[${index}].genreId must be a genre ID`);
+        }
+        return;
+      }
+
+      const duration = event.durationMinutes;
+      if (
+        event.type === FeedbackEventType.PLAY_SESSION &&
+        !(duration !== undefined && Number.isFinite(duration) && duration >= 0)
+      ) {
+        errors.push(`events[${index}].durationMinutes must be a non-negative number`);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid feedback events:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    await this.store.appendEvents(events.map((event) => ({ event, bufferedAt })));
+  }
+
+  /**
+   * Fold every pending event into aggregates, then delete it
+   * Scheduler entry point. Events buffered past the retention window are
+   * discarded unfolded, and play and dismissals outside their windows are
+   * pruned. Each user's events are deleted only once their aggregates are
+   * saved; if a save fails, the error is thrown and that user's events and
+   * those of users not yet folded stay buffered.
+   */
+  async fold(asOf: Date = systemClock.now()): Promise<FoldSummary> {
+    const retentionCutoff = asOf.getTime() - this.options.rawEventRetentionHours * HOUR_MS;
+    const summary: FoldSummary = { folded: 0, expired: 0, usersUpdated: 0 };
+
+    for (const userId of await this.store.getPendingUserIds()) {
+      const pending = await this.store.getPendingEvents(userId);
+      const userEvents = pending
+        .filter((buffered) => buffered.bufferedAt.getTime() >= retentionCutoff)
+        .map((buffered) => buffered.event);
+
+      if (userEvents.length > 0) {
+        await this.foldUser(userId, userEvents, asOf);
+        summary.usersUpdated++;
+      }
+
+      await this.store.acknowledgeEvents(userId, pending.length);
+      summary.folded += userEvents.length;
+      summary.expired += pending.length - userEvents.length;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Build the user's history from their aggregates
+   * Long-play games are ordered by minutes played, most first
+   */
+  async getUserHistory(userId: UserId, asOf: Date = systemClock.now()): Promise<UserHistory> {
+    const aggregates = this.prune(
+      (await this.store.getAggregates(userId)) ?? { games: [], dismissedGenres: [] },
+      asOf
+    );
+    const engagement = aggregates.games;
+    const totals = engagement.map((game) => ({
+      gameId: game.gameId,
+      minutes: game.dailyPlay.reduce((sum, day) => sum + day.minutes, 0),
+      sessions: game.dailyPlay.reduce((sum, day) => sum + day.sessions, 0),
+    }));
+
+    const dismissedGames = new Map<GameId, Date>();
+    for (const game of engagement) {
+      if (game.dismissedAt !== undefined) {
+        dismissedGames.set(game.gameId, game.dismissedAt);
+      }
+    }
+
+    return {
+      longPlayGames: totals
+        .filter((game) => game.minutes >= this.options.longPlayMinutes)
+        .sort((a, b) => b.minutes - a.minutes)
+        .map((game) => game.gameId),
+      likedGames: engagement
+        .filter((game) => game.reaction === FeedbackEventType.LIKE)
+        .map((game) => game.gameId),
+      favouritedGames: engagement
+        .filter((game) => game.favourited)
+        .map((game) => game.gameId),
+      heavilyPlayed: new Set(
+        totals
+          .filter((game) => game.sessions >= this.options.heavilyPlayedSessions)
+          .map((game) => game.gameId)
+      ),
+      dismissedGames,
+      dismissedGenres: new Map(
+        aggregates.dismissedGenres.map((dismissal) => [dismissal.genreId, dismissal.dismissedAt])
+      ),
+    };
+  }
+
+  /**
+   * Fold one user's events into their aggregates and save them
+   */
+  private async foldUser(userId: UserId, events: FeedbackEvent[], asOf: Date): Promise<void> {
+    const stored = await this.store.getAggregates(userId);
+    const games = new Map(
+      (stored?.games ?? []).map((game) => [
+        game.gameId,
+        { ...game, dailyPlay: game.dailyPlay.map((entry) => ({ ...entry })) },
+      ])
+    );
+    const dismissedGenres = new Map(
+      (stored?.dismissedGenres ?? []).map((dismissal) => [
+        dismissal.genreId,
+        dismissal.dismissedAt,
+      ])
+    );
+
+    // Later reactions override earlier ones, including those already folded
+    const ordered = [...events].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+    for (const event of ordered) {
+      if (event.type === FeedbackEventType.NOT_INTERESTED_GENRE) {
+        dismissedGenres.set(
+          event.genreId,
+          this.latest(dismissedGenres.get(event.genreId), event.occurredAt)
+        );
+      } else {
+        this.apply(games, event);
+      }
+    }
+
+    await this.store.saveAggregates(
+      userId,
+      this.prune(
+        {
+          games: [...games.values()],
+          dismissedGenres: [...dismissedGenres].map(([genreId, dismissedAt]) => ({
+            genreId,
+            dismissedAt,
+          })),
+        },
+        asOf
+      )
+    );
+  }
+
+  private apply(games: Map<GameId, GameEngagement>, event: GameFeedbackEvent): void {
+    const game = games.get(event.gameId) ?? {
+      gameId: event.gameId,
+      dailyPlay: [],
+      favourited: false,
+    };
+    games.set(event.gameId, game);
+    const day = this.toDay(event.occurredAt);
+
+    switch (event.type) {
+      case FeedbackEventType.PLAY_SESSION: {
+        let daily = game.dailyPlay.find((entry) => entry.day === day);
+        if (!daily) {
+          daily = { day, sessions: 0, minutes: 0 };
+          game.dailyPlay.push(daily);
+          game.dailyPlay.sort((a, b) => a.day - b.day);
+        }
+        daily.sessions++;
+        daily.minutes += event.durationMinutes ?? 0;
+        break;
+      }
+
+      case FeedbackEventType.LIKE:
+      case FeedbackEventType.DISLIKE:
+        if (this.isLatest(game.reactedAt, event.occurredAt)) {
+          game.reaction = event.type;
+          game.reactedAt = event.occurredAt;
+        }
+        break;
+
+      case FeedbackEventType.FAVOURITE:
+      case FeedbackEventType.UNFAVOURITE:
+        if (this.isLatest(game.favouritedAt, event.occurredAt)) {
+          game.favourited = event.type === FeedbackEventType.FAVOURITE;
+          game.favouritedAt = event.occurredAt;
+        }
+        break;
+
+      case FeedbackEventType.NOT_INTERESTED:
+        game.dismissedAt = this.latest(game.dismissedAt, event.occurredAt);
+        break;
+    }
+  }
+
+  /**
+   * Drop play and dismissals outside their windows, and games with nothing left
+   */
+  private prune(aggregates: UserAggregates, asOf: Date): UserAggregates {
+    const today = this.toDay(asOf);
+    const firstPlayDay = today - this.options.playWindowDays + 1;
+    const dismissalCutoff = asOf.getTime() - this.options.dismissalRetentionDays * DAY_MS;
+
+    return {
+      games: aggregates.games
+        .map((game) => ({
+          ...game,
+          dailyPlay: game.dailyPlay.filter((entry) => entry.day >= firstPlayDay),
+          dismissedAt:
+            game.dismissedAt !== undefined && game.dismissedAt.getTime() > dismissalCutoff
+              ? game.dismissedAt
+              : undefined,
+        }))
+        .filter(
+          (game) =>
+            game.dailyPlay.length > 0 ||
+            game.reaction !== undefined ||
+            game.favourited ||
+            game.dismissedAt !== undefined
+        ),
+      dismissedGenres: aggregates.dismissedGenres.filter(
+        (dismissal) => dismissal.dismissedAt.getTime() > dismissalCutoff
+      ),
+    };
+  }
+
+  private latest(current: Date | undefined, candidate: Date): Date {
+    return this.isLatest(current, candidate) ? candidate : current!;
+  }
+
+  private isLatest(current: Date | undefined, candidate: Date): boolean {
+    return current === undefined || candidate.getTime() >= current.getTime();
+  }
+
+  private toDay(time: Date): number {
+    return Math.floor(time.getTime() / DAY_MS);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Game Catalog Module
+ *
+ * Resolves game IDs (e.g. from user history) back to game metadata.
+ * Lookups are batched and cached for the lifetime of a single request.
+ */
+
+import { Game, GameId } from './types';
+
+/**
+ * Data access interface for looking up games by ID
+ * This is the source of truth for served games: explanations re-fetch games
+ * here, so it must return the same metadata (e.g. sponsorship) the candidate
+ * sources served
+ */
+export interface GameCatalog {
+  getGamesByIds(gameIds: GameId[]): Promise<Game[]>;
+}
+
+/**
+ * Request-scoped game lookup
+ * Create one per request so cached games never outlive the request
+ */
+export class GameLookup {
+  private cache = new Map<GameId, Game | null>();
+
+  constructor(
+    private catalog: GameCatalog,
+    private batchSize: number = 100
+  ) {}
+
+  /**
+   * Fetch all uncached games in batches
+   * Unknown IDs are cached as misses so they are not fetched again
+   */
+  async prefetch(gameIds: Iterable<GameId>): Promise<void> {
+    const missing = [...new Set(gameIds)].filter((id) => !this.cache.has(id));
+
+    for (let i = 0; i < missing.length; i += this.batchSize) {
+      const batch = missing.slice(i, i + this.batchSize);
+      const games = await this.catalog.getGamesByIds(batch);
+
+      for (const game of games) {
+        this.cache.set(game.gameId, game);
+      }
+
+      for (const gameId of batch) {
+        if (!this.cache.has(gameId)) {
+          this.cache.set(gameId, null);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get a previously fetched game
+   */
+  get(gameId: GameId): Game | undefined {
+    return this.cache.get(gameId) ?? undefined;
+  }
+
+  /**
+   * Resolve a list of IDs to the games that were found
+   */
+  resolve(gameIds: GameId[]): Game[] {
+    const games: Game[] = [];
+
+    for (const gameId of gameIds) {
+      const game = this.get(gameId);
+      if (game) {
+        games.push(game);
+      }
+    }
+
+    return games;
+  }
+}
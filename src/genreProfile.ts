@@ -0,0 +1,231 @@
+/**
+ * Genre Profile Module
+ *
+ * Derives the user genre vector from aggregated engagement. Play time,
+ * likes and favourites are spread over each game's own genre vector and
+ * decay exponentially, so recent behaviour dominates.
+ */
+
+import { Game, GameId, GenreId, GenreVector } from './types';
+import { GameEngagement, FeedbackEventType } from './feedbackIngestion';
+
+/**
+ * Unnormalised, decayed genre weights
+ * Weights are decayed to `day`; only days are kept, never exact times
+ */
+export interface GenreProfile {
+  weights: Map<GenreId, number>;
+  day: number; // Days since the Unix epoch
+}
+
+/**
+ * Engagement with one game to fold into a profile
+ * Play is log-scaled per session; minutes over several sessions are
+ * spread evenly across them
+ */
+export interface GenreEngagementUpdate {
+  genreVector: GenreVector; // The game's genre vector
+  minutesPlayed?: number;
+  sessions?: number; // Sessions minutesPlayed covers; defaults to 1
+  liked?: boolean;
+  favourited?: boolean;
+  occurredAt: Date;
+}
+
+export interface GenreProfileOptions {
+  halfLifeDays: number; // Engagement counts half as much after this many days
+  playWeight: number; // Per log(1 + hours) of each session, so long sessions do not swamp reactions
+  likeWeight: number;
+  favouriteWeight: number;
+  minShare: number; // Genres below this share of the profile are dropped
+}
+
+const DEFAULT_GENRE_PROFILE_OPTIONS: GenreProfileOptions = {
+  halfLifeDays: 14,
+  playWeight: 1.0,
+  likeWeight: 1.5,
+  favouriteWeight: 3.0,
+  minShare: 0.01,
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Builds and incrementally updates genre profiles
+ */
+export class GenreProfileBuilder {
+  private options: GenreProfileOptions;
+
+  constructor(options: Partial<GenreProfileOptions> = {}) {
+    this.options = {
+      halfLifeDays: options.halfLifeDays ?? DEFAULT_GENRE_PROFILE_OPTIONS.halfLifeDays,
+      playWeight: options.playWeight ?? DEFAULT_GENRE_PROFILE_OPTIONS.playWeight,
+      likeWeight: options.likeWeight ?? DEFAULT_GENRE_PROFILE_OPTIONS.likeWeight,
+      favouriteWeight:
+        options.favouriteWeight ?? DEFAULT_GENRE_PROFILE_OPTIONS.favouriteWeight,
+      minShare: options.minShare ?? DEFAULT_GENRE_PROFILE_OPTIONS.minShare,
+    };
+  }
+
+  createEmpty(asOf: Date): GenreProfile {
+    return { weights: new Map(), day: this.toDay(asOf) };
+  }
+
+  /**
+   * Fold new engagement into a profile, e.g. after each session
+   * Returns a new profile; the input is not modified. The profile moves
+   * forward to the latest engagement, and older engagement is discounted
+   * by its age, so updates may arrive out of order.
+   * Pass each like and favourite once, when it happens, not with every
+   * session. Unliking and unfavouriting cannot be subtracted; rebuild the
+   * profile with build to drop them.
+   */
+  update(profile: GenreProfile, updates: GenreEngagementUpdate[]): GenreProfile {
+    const day = updates.reduce(
+      (latest, update) => Math.max(latest, this.toDay(update.occurredAt)),
+      profile.day
+    );
+    const weights = this.decay(profile.weights, day - profile.day);
+
+    for (const update of updates) {
+      const strength =
+        this.engagementStrength(update) *
+        this.decayFactor(day - this.toDay(update.occurredAt));
+      this.spread(weights, update.genreVector, strength);
+    }
+
+    return { weights: this.prune(weights), day };
+  }
+
+  /**
+   * Rebuild a profile from stored aggregates
+   * Play is dated by the day it happened, likes and favourites by when they
+   * were made, and all are decayed like incremental updates; current likes and favourites count
+   * once, so removed ones drop out.
+   */
+  build(engagement: GameEngagement[], games: Map<GameId, Game>, asOf: Date): GenreProfile {
+    const updates: GenreEngagementUpdate[] = [];
+
+    for (const entry of engagement) {
+      const game = games.get(entry.gameId);
+      if (!game) {
+        continue;
+      }
+
+      for (const daily of entry.dailyPlay) {
+        updates.push({
+          genreVector: game.genreVector,
+          minutesPlayed: daily.minutes,
+          sessions: daily.sessions,
+          occurredAt: this.fromDay(daily.day),
+        });
+      }
+
+      if (entry.reaction === FeedbackEventType.LIKE) {
+        updates.push({
+          genreVector: game.genreVector,
+          liked: true,
+          occurredAt: entry.reactedAt ?? asOf,
+        });
+      }
+      if (entry.favourited) {
+        updates.push({
+          genreVector: game.genreVector,
+          favourited: true,
+          occurredAt: entry.favouritedAt ?? asOf,
+        });
+      }
+    }
+
+    return this.update(this.createEmpty(asOf), updates);
+  }
+
+  /**
+   * Normalised genre vector; weights sum to 1
+   * Decay scales every genre equally, so the result does not depend on
+   * when it is read
+   */
+  toGenreVector(profile: GenreProfile): GenreVector {
+    const total = [...profile.weights.values()].reduce((sum, weight) => sum + weight, 0);
+    const vector: GenreVector = new Map();
+
+    if (total <= 0) {
+      return vector;
+    }
+
+    for (const [genreId, weight] of profile.weights) {
+      vector.set(genreId, weight / total);
+    }
+
+    return vector;
+  }
+
+  private engagementStrength(update: GenreEngagementUpdate): number {
+    const sessions = Math.max(update.sessions ?? 1, 1);
+    const hoursPerSession = Math.max(update.minutesPlayed ?? 0, 0) / 60 / sessions;
+
+    return (
+      this.options.playWeight * sessions * Math.log1p(hoursPerSession) +
+      (update.liked ? this.options.likeWeight : 0) +
+      (update.favourited ? this.options.favouriteWeight : 0)
+    );
+  }
+
+  /**
+   * Add strength across the game's genres in proportion to its genre vector
+   * Multi-genre games contribute no more in total than single-genre ones
+   */
+  private spread(
+    weights: Map<GenreId, number>,
+    genreVector: GenreVector,
+    strength: number
+  ): void {
+    const total = [...genreVector.values()].reduce((sum, weight) => sum + weight, 0);
+    if (strength <= 0 || total <= 0) {
+      return;
+    }
+
+    for (const [genreId, weight] of genreVector) {
+      weights.set(genreId, (weights.get(genreId) || 0) + (strength * weight) / total);
+    }
+  }
+
+  private decay(weights: Map<GenreId, number>, days: number): Map<GenreId, number> {
+    const factor = this.decayFactor(days);
+    const decayed = new Map<GenreId, number>();
+
+    for (const [genreId, weight] of weights) {
+      decayed.set(genreId, weight * factor);
+    }
+
+    return decayed;
+  }
+
+  private decayFactor(days: number): number {
+    return Math.pow(0.5, days / this.options.halfLifeDays);
+  }
+
+  /**
+   * Drop genres too small to matter so profiles stay bounded
+   */
+  private prune(weights: Map<GenreId, number>): Map<GenreId, number> {
+    const total = [...weights.values()].reduce((sum, weight) => sum + weight, 0);
+    const pruned = new Map<GenreId, number>();
+
+    for (const [genreId, weight] of weights) {
+      if (weight > 0 && weight >= total * this.options.minShare) {
+        pruned.set(genreId, weight);
+      }
+    }
+
+    return pruned;
+  }
+
+  private toDay(time: Date): number {
+    return Math.floor(time.getTime() / DAY_MS);
+  }
+
+  private fromDay(day: number): Date {
+    return new Date(day * DAY_MS);
+  }
+}
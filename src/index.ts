@@ -6,14 +6,200 @@
 export * from './types';
 
 // Export main classes
-export { CandidateGenerator, CandidateDataSource } from './candidateGenerator';
-export { EligibilityFilter, EligibilityConfig } from './eligibilityFilter';
+export {
+  CandidateGenerator,
+  CandidateDataSource,
+  CandidateSourceStats,
+  CandidateGenerationResult,
+} from './candidateGenerator';
+export {
+  EligibilityFilter,
+  EligibilityConfig,
+  EligibilityAudience,
+  EligibilityRuleId,
+  RuleValue,
+  RuleEvaluation,
+  EligibilityDecision,
+  EligibilityAuditSink,
+  EligibilityAuditQuery,
+  InMemoryEligibilityAuditSink,
+} from './eligibilityFilter';
+export {
+  SafetyRuleSetLoader,
+  SafetyRuleSet,
+  SafetyRule,
+  SafetyRuleCondition,
+} from './safetyRules';
 export { ScoringEngine } from './scoringEngine';
-export { DiversityPass } from './diversityPass';
-export { SponsoredInjector, BucketOrganizer } from './bucketOrganizer';
-export { ChartGenerator, ChartDataSource, GameMetrics } from './chartGenerator';
-export { RecommendationEngine } from './recommendationEngine';
-export { DEFAULT_CONFIG } from './config';
+export {
+  SignalRegistry,
+  ScoringSignal,
+  SignalKind,
+  SignalContext,
+  BuiltInSignal,
+  ResolvedHistory,
+  createBuiltInSignals,
+  createDefaultSignalRegistry,
+  createEmptyBreakdown,
+} from './scoringSignals';
+export { GameCatalog, GameLookup } from './gameCatalog';
+export {
+  RatingCalculator,
+  RatingInput,
+  RatingContext,
+  getDominantGenre,
+} from './rating';
+export {
+  DiversityPass,
+  DiversityRule,
+  DiversitySkip,
+  DiversityResult,
+} from './diversityPass';
+export {
+  SponsoredInjector,
+  SponsoredInjectionResult,
+  BucketOrganizer,
+} from './bucketOrganizer';
+export {
+  ExplanationService,
+  ReasonCode,
+  ReasonTemplates,
+  RecommendationReason,
+  RecommendationExplanation,
+  RenderOptions,
+  ExplanationOptions,
+  DEFAULT_REASON_TEMPLATES,
+} from './explanationService';
+export {
+  ChartGenerator,
+  ChartGeneratorOptions,
+  ChartDataSource,
+  GameMetrics,
+  WindowedMetrics,
+  CHART_WINDOWS,
+  createChartWindow,
+} from './chartGenerator';
+export {
+  MetricsLoader,
+  MetricsLoaderOptions,
+  BatchMetricsSource,
+  SingleMetricsBatchAdapter,
+  WindowedMetricsSource,
+  GameMetricsWindowAdapter,
+} from './chartMetrics';
+export {
+  TrendingScorer,
+  TrendingScorerOptions,
+  TrendingScore,
+} from './trendingScorer';
+export {
+  ChartSafetyHook,
+  CreationGracePeriodHook,
+  YOUNGER_AGE_BANDS,
+  createDefaultChartSafetyHooks,
+} from './chartSafety';
+export { ChartHydrator, HydrationOptions } from './chartHydrator';
+export {
+  ChartStore,
+  StoredChart,
+  toChartStorageKey,
+  InMemoryChartStore,
+  ChartCache,
+  ChartCacheOptions,
+  PrecomputeSummary,
+} from './chartStore';
+export {
+  ChartHistorySnapshot,
+  ChartHistoryStore,
+  InMemoryChartHistoryStore,
+  ChartHistoryOptions,
+  ChartHistoryTracker,
+} from './chartHistory';
+export {
+  PipelineStage,
+  PipelineTrace,
+  TracedRecommendations,
+  StageTimer,
+} from './pipelineTrace';
+export { Clock, systemClock, FixedClock } from './clock';
+export {
+  RecommendationEngine,
+  RecommendationEngineOptions,
+} from './recommendationEngine';
+export {
+  ExperimentVariant,
+  Experiment,
+  ExperimentLayer,
+  ExperimentHoldout,
+  ExperimentSetup,
+  ExperimentExposure,
+  ExperimentAssignment,
+  ExperimentRecommendations,
+  TracedExperimentRecommendations,
+  EngineFactory,
+  ExperimentAssigner,
+  ExperimentRunner,
+  hashToUnitInterval,
+} from './experiments';
+export {
+  LoggedSession,
+  SessionFixture,
+  SessionFixtureLoader,
+} from './sessionFixtures';
+export {
+  OfflineEvaluator,
+  OfflineEvaluatorOptions,
+  NamedConfig,
+  EvaluationMetrics,
+  SafetyViolation,
+  ConfigEvaluation,
+  EvaluationReport,
+} from './offlineEvaluator';
+export {
+  WeightTrainer,
+  WeightTrainerOptions,
+  LoggedImpression,
+  RankingMetrics,
+  TrainingMetrics,
+  TrainingResult,
+} from './weightTrainer';
+export {
+  getDismissalStrength,
+  getActiveDismissedGames,
+  dampGenreVector,
+  getDismissedGenreShare,
+} from './dismissals';
+export {
+  FeedbackEventType,
+  FeedbackEvent,
+  BufferedEvent,
+  GameFeedbackEvent,
+  GenreFeedbackEvent,
+  DailyPlay,
+  GameEngagement,
+  GenreDismissal,
+  UserAggregates,
+  FeedbackStore,
+  InMemoryFeedbackStore,
+  FeedbackIngestionOptions,
+  FoldSummary,
+  FeedbackIngestor,
+} from './feedbackIngestion';
+export {
+  GenreProfile,
+  GenreEngagementUpdate,
+  GenreProfileOptions,
+  GenreProfileBuilder,
+} from './genreProfile';
+export { DEFAULT_CONFIG, DEFAULT_SAFETY_RULE_SET } from './config';
+export {
+  ConfigLoader,
+  ConfigSources,
+  ConfigPatch,
+  DeepPartial,
+  CONFIG_ENV_PREFIX,
+  mergeConfig,
+} from './configLoader';
 
 // Re-export for convenience
 import { RecommendationEngine } from './recommendationEngine';
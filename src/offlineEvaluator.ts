@@ -0,0 +1,339 @@
+/**
+ * Offline Evaluation Module
+ *
+ * Replays logged sessions through the in-process pipeline under several
+ * configs and compares ranking quality, diversity, sponsored load and
+ * safety side by side. No external services are needed.
+ */
+
+import { RecommendationEngine, RecommendationEngineOptions } from './recommendationEngine';
+import { CandidateDataSource } from './candidateGenerator';
+import { ChartDataSource, GameMetrics, WindowedMetrics } from './chartGenerator';
+import { GameCatalog } from './gameCatalog';
+import { getDominantGenre } from './rating';
+import { SessionFixture, LoggedSession } from './sessionFixtures';
+import { DEFAULT_SAFETY_RULE_SET } from './config';
+import {
+  Game,
+  GameId,
+  GenreId,
+  GenreVector,
+  AgeBand,
+  RecommendationBucket,
+  RecommendationConfig,
+} from './types';
+
+/**
+ * A config to evaluate, labelled for the report
+ */
+export interface NamedConfig {
+  name: string;
+  config: RecommendationConfig;
+}
+
+export interface OfflineEvaluatorOptions {
+  k: number; // Cut-off for ranking metrics
+  bucketId: string; // Bucket whose ranking is scored
+  engineOptions: Pick<RecommendationEngineOptions, 'safetyRuleSet' | 'signalRegistry'>;
+}
+
+const DEFAULT_OFFLINE_EVALUATOR_OPTIONS: OfflineEvaluatorOptions = {
+  k: 10,
+  bucketId: 'recommended_for_you',
+  engineOptions: {},
+};
+
+/**
+ * Metrics for one config, averaged over sessions
+ */
+export interface EvaluationMetrics {
+  ndcgAtK: number; // Binary relevance: played or not
+  recallAtK: number; // Share of played games in the top k
+  catalogCoverage: number; // Distinct games in any top k / catalog size
+  genreDiversity: number; // Distinct dominant genres per top k
+  sponsoredShare: number; // Sponsored games / games in the top k
+  safetyViolations: number; // Games served in any bucket above the user's age band
+}
+
+/**
+ * A game served to a user too young for it
+ */
+export interface SafetyViolation {
+  sessionId: string;
+  bucketId: string;
+  gameId: GameId;
+  userAgeBand: AgeBand;
+  minAgeBand: AgeBand;
+}
+
+export interface ConfigEvaluation {
+  name: string;
+  metrics: EvaluationMetrics;
+  violations: SafetyViolation[];
+}
+
+export interface EvaluationReport {
+  k: number;
+  sessionCount: number;
+  scoredSessionCount: number; // Sessions with at least one played game
+  results: ConfigEvaluation[];
+}
+
+/**
+ * Serves one logged session to the pipeline
+ * Every candidate is returned by a single source, so candidate generation
+ * reproduces the logged candidates. Sessions carry no windowed metrics, so
+ * chart-backed buckets are empty.
+ */
+class SessionDataSource implements CandidateDataSource, GameCatalog, ChartDataSource {
+  private candidates: Game[];
+
+  constructor(
+    private games: Map<GameId, Game>,
+    session: LoggedSession
+  ) {
+    this.candidates = session.candidates
+      .map((gameId) => games.get(gameId))
+      .filter((game): game is Game => game !== undefined);
+  }
+
+  async getTopGamesByGenres(_genreVector: GenreVector, _limit: number): Promise<Game[]> {
+    return this.candidates;
+  }
+
+  async getPopularGamesByAgeBand(ageBand: AgeBand, limit: number): Promise<Game[]> {
+    return [...this.candidates]
+      .sort(
+        (a, b) => (b.playsByAgeBand.get(ageBand) || 0) - (a.playsByAgeBand.get(ageBand) || 0)
+      )
+      .slice(0, limit);
+  }
+
+  async getTrendingGames(_limit: number): Promise<Game[]> {
+    return [];
+  }
+
+  async getEditorialPicks(_limit: number): Promise<Game[]> {
+    return [];
+  }
+
+  async getSponsoredGames(limit: number): Promise<Game[]> {
+    return this.candidates.filter((game) => game.isSponsored).slice(0, limit);
+  }
+
+  async getGamesByIds(gameIds: GameId[]): Promise<Game[]> {
+    return gameIds
+      .map((gameId) => this.games.get(gameId))
+      .filter((game): game is Game => game !== undefined);
+  }
+
+  async getGameMetrics(): Promise<GameMetrics> {
+    throw new Error('Charts are not available in offline evaluation');
+  }
+
+  async getWindowedMetrics(): Promise<Map<GameId, WindowedMetrics>> {
+    return new Map();
+  }
+
+  async fetchGamesByAgeAndPlatform(): Promise<Game[]> {
+    return [];
+  }
+}
+
+/**
+ * Replays logged sessions under several configs
+ */
+export class OfflineEvaluator {
+  private options: OfflineEvaluatorOptions;
+
+  constructor(options: Partial<OfflineEvaluatorOptions> = {}) {
+    this.options = {
+      k: options.k ?? DEFAULT_OFFLINE_EVALUATOR_OPTIONS.k,
+      bucketId: options.bucketId ?? DEFAULT_OFFLINE_EVALUATOR_OPTIONS.bucketId,
+      engineOptions: options.engineOptions ?? DEFAULT_OFFLINE_EVALUATOR_OPTIONS.engineOptions,
+    };
+  }
+
+  /**
+   * Evaluate every config on every session
+   */
+  async evaluate(fixture: SessionFixture, configs: NamedConfig[]): Promise<EvaluationReport> {
+    const games = new Map(fixture.games.map((game) => [game.gameId, game]));
+    const results: ConfigEvaluation[] = [];
+
+    for (const { name, config } of configs) {
+      results.push(await this.evaluateConfig(name, config, fixture.sessions, games));
+    }
+
+    return {
+      k: this.options.k,
+      sessionCount: fixture.sessions.length,
+      scoredSessionCount: fixture.sessions.filter((session) => session.played.length > 0)
+        .length,
+      results,
+    };
+  }
+
+  /**
+   * Side-by-side table of the report, one column per config
+   */
+  formatReport(report: EvaluationReport): string {
+    const k = report.k;
+    const rows: Array<[string, (metrics: EvaluationMetrics) => string]> = [
+      [`NDCG@${k}`, (m) => m.ndcgAtK.toFixed(4)],
+      [`Recall@${k}`, (m) => m.recallAtK.toFixed(4)],
+      ['Catalog coverage', (m) => m.catalogCoverage.toFixed(4)],
+      ['Genre diversity', (m) => m.genreDiversity.toFixed(2)],
+      ['Sponsored share', (m) => m.sponsoredShare.toFixed(4)],
+      ['Safety violations', (m) => String(m.safetyViolations)],
+    ];
+
+    const table = [
+      ['Metric', ...report.results.map((result) => result.name)],
+      ...rows.map(([label, format]) => [
+        label,
+        ...report.results.map((result) => format(result.metrics)),
+      ]),
+    ];
+    const widths = table[0].map((_, column) =>
+      Math.max(...table.map((row) => row[column].length))
+    );
+
+    return [
+      `${report.sessionCount} sessions (${report.scoredSessionCount} with plays)`,
+      ...table.map((row) =>
+        row
+          .map((cell, column) => cell.padEnd(widths[column]))
+          .join('  ')
+          .trimEnd()
+      ),
+    ].join('\n');
+  }
+
+  private async evaluateConfig(
+    name: string,
+    config: RecommendationConfig,
+    sessions: LoggedSession[],
+    games: Map<GameId, Game>
+  ): Promise<ConfigEvaluation> {
+    const { k, bucketId } = this.options;
+    const covered = new Set<GameId>();
+    const violations: SafetyViolation[] = [];
+    let ndcgTotal = 0;
+    let recallTotal = 0;
+    let scoredSessions = 0;
+    let genreTotal = 0;
+    let shownTotal = 0;
+    let sponsoredTotal = 0;
+
+    for (const session of sessions) {
+      const source = new SessionDataSource(games, session);
+      const engine = new RecommendationEngine(config, source, source, true, {
+        ...this.options.engineOptions,
+        gameCatalog: source,
+      });
+      const buckets = await engine.generateRecommendations(
+        session.userContext,
+        session.userHistory,
+        undefined,
+        session.asOf
+      );
+
+      const ranked = buckets.find((bucket) => bucket.id === bucketId)?.games ?? [];
+      const topK = ranked.slice(0, k);
+      const topGames = topK
+        .map((gameId) => games.get(gameId))
+        .filter((game): game is Game => game !== undefined);
+
+      if (session.played.length > 0) {
+        const played = new Set(session.played);
+        ndcgTotal += this.ndcg(topK, played);
+        recallTotal += topK.filter((gameId) => played.has(gameId)).length / played.size;
+        scoredSessions++;
+      }
+
+      topK.forEach((gameId) => covered.add(gameId));
+      genreTotal += this.distinctGenres(topGames);
+      shownTotal += topGames.length;
+      sponsoredTotal += topGames.filter((game) => game.isSponsored).length;
+      violations.push(...this.findViolations(session, buckets, games));
+    }
+
+    return {
+      name,
+      metrics: {
+        ndcgAtK: scoredSessions > 0 ? ndcgTotal / scoredSessions : 0,
+        recallAtK: scoredSessions > 0 ? recallTotal / scoredSessions : 0,
+        catalogCoverage: games.size > 0 ? covered.size / games.size : 0,
+        genreDiversity: sessions.length > 0 ? genreTotal / sessions.length : 0,
+        sponsoredShare: shownTotal > 0 ? sponsoredTotal / shownTotal : 0,
+        safetyViolations: violations.length,
+      },
+      violations,
+    };
+  }
+
+  /**
+   * NDCG with binary relevance
+   * The ideal ranking puts every played game first, up to k
+   */
+  private ndcg(ranked: GameId[], played: Set<GameId>): number {
+    let dcg = 0;
+    ranked.forEach((gameId, index) => {
+      if (played.has(gameId)) {
+        dcg += 1 / Math.log2(index + 2);
+      }
+    });
+
+    let idcg = 0;
+    for (let index = 0; index < Math.min(played.size, this.options.k); index++) {
+      idcg += 1 / Math.log2(index + 2);
+    }
+
+    return idcg > 0 ? dcg / idcg : 0;
+  }
+
+  private distinctGenres(games: Game[]): number {
+    const genres = new Set<GenreId>();
+
+    for (const game of games) {
+      const genreId = getDominantGenre(game);
+      if (genreId !== undefined) {
+        genres.add(genreId);
+      }
+    }
+
+    return genres.size;
+  }
+
+  /**
+   * Checked against the default age-band order rather than the engine's
+   * rule set, so a bad rule set change shows up as violations
+   */
+  private findViolations(
+    session: LoggedSession,
+    buckets: RecommendationBucket[],
+    games: Map<GameId, Game>
+  ): SafetyViolation[] {
+    const order = DEFAULT_SAFETY_RULE_SET.ageBandOrder;
+    const userAgeBand = session.userContext.ageBand;
+    const violations: SafetyViolation[] = [];
+
+    for (const bucket of buckets) {
+      for (const gameId of bucket.games) {
+        const game = games.get(gameId);
+        if (game && order[game.minAgeBand] > order[userAgeBand]) {
+          violations.push({
+            sessionId: session.sessionId,
+            bucketId: bucket.id,
+            gameId,
+            userAgeBand,
+            minAgeBand: game.minAgeBand,
+          });
+        }
+      }
+    }
+
+    return violations;
+  }
+}
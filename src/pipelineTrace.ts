@@ -0,0 +1,81 @@
+/**
+ * Pipeline Trace Module
+ *
+ * Per-stage report of a recommendation run, used to debug unexpected results.
+ */
+
+import { performance } from 'perf_hooks';
+import { CandidateSourceStats } from './candidateGenerator';
+import { EligibilityDecision } from './eligibilityFilter';
+import { DiversitySkip } from './diversityPass';
+import { RecommendationBucket, ScoredGame, GameId } from './types';
+
+/**
+ * Pipeline stages that are timed
+ */
+export enum PipelineStage {
+  CANDIDATE_GENERATION = 'CANDIDATE_GENERATION',
+  ELIGIBILITY = 'ELIGIBILITY',
+  SCORING = 'SCORING',
+  DIVERSITY = 'DIVERSITY',
+  SPONSORED_INJECTION = 'SPONSORED_INJECTION',
+  BUCKETING = 'BUCKETING',
+}
+
+/**
+ * Per-stage report of a single recommendation run
+ */
+export interface PipelineTrace {
+  candidateGeneration: {
+    sources: CandidateSourceStats[];
+    totalCandidates: number;
+  };
+  eligibility: {
+    eligibleCount: number;
+    rejected: EligibilityDecision[];
+    dismissed: GameId[]; // Eligible, but the user marked them "not interested"
+  };
+  scoring: {
+    scored: ScoredGame[];
+  };
+  diversity: {
+    kept: GameId[];
+    skipped: DiversitySkip[];
+  };
+  sponsoredInjection: {
+    slots: number[];
+    injected: GameId[];
+  };
+  timingsMs: Record<PipelineStage, number>;
+}
+
+/**
+ * Buckets together with the trace that produced them
+ */
+export interface TracedRecommendations {
+  buckets: RecommendationBucket[];
+  trace: PipelineTrace;
+}
+
+/**
+ * Records wall-clock time spent in each stage
+ */
+export class StageTimer {
+  private timings = {} as Record<PipelineStage, number>;
+
+  /**
+   * Run a stage and record how long it took
+   */
+  async time<T>(stage: PipelineStage, run: () => T | Promise<T>): Promise<T> {
+    const start = performance.now();
+    try {
+      return await run();
+    } finally {
+      this.timings[stage] = performance.now() - start;
+    }
+  }
+
+  getTimings(): Record<PipelineStage, number> {
+    return { ...this.timings };
+  }
+}
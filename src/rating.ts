@@ -0,0 +1,150 @@
+/**
+ * Rating Module
+ *
+ * Shared like/dislike rating estimators, used by community rating scoring
+ * and the Top Rated chart so both rank games the same way.
+ */
+
+import {
+  Game,
+  GenreId,
+  AgeBand,
+  RatingConfig,
+  RatingEstimator,
+  RatingPrior,
+} from './types';
+
+/**
+ * Like and dislike counts to rate
+ */
+export interface RatingInput {
+  likes: number;
+  dislikes: number;
+}
+
+/**
+ * Context used to pick a Bayesian prior
+ */
+export interface RatingContext {
+  genreId?: GenreId;
+  ageBand?: AgeBand;
+}
+
+/**
+ * Genre with the highest weight in a game's genre vector
+ */
+export function getDominantGenre(game: Game): GenreId | undefined {
+  let dominant: GenreId | undefined;
+  let maxWeight = -Infinity;
+
+  for (const [genreId, weight] of game.genreVector) {
+    if (weight > maxWeight) {
+      dominant = genreId;
+      maxWeight = weight;
+    }
+  }
+
+  return dominant;
+}
+
+/**
+ * Rates games with the configured estimator
+ *
+ * LOG_CONFIDENCE returns -1 to 1; WILSON_LOWER_BOUND and BAYESIAN_AVERAGE
+ * return a like rate from 0 to 1. Ratings are only comparable within one
+ * estimator.
+ */
+export class RatingCalculator {
+  constructor(private config: RatingConfig) {}
+
+  /**
+   * Rate a game from its own likes and dislikes
+   * The prior is chosen by the game's dominant genre, then the age band
+   */
+  rateGame(game: Game, ageBand?: AgeBand): number {
+    return this.rate(game, { genreId: getDominantGenre(game), ageBand });
+  }
+
+  /**
+   * Rate a set of reactions
+   */
+  rate(input: RatingInput, context: RatingContext = {}): number {
+    switch (this.config.estimator) {
+      case RatingEstimator.LOG_CONFIDENCE:
+        return this.logConfidence(input);
+
+      case RatingEstimator.WILSON_LOWER_BOUND:
+        return this.wilsonLowerBound(input);
+
+      case RatingEstimator.BAYESIAN_AVERAGE:
+        return this.bayesianAverage(input, this.resolvePrior(context));
+
+      default:
+        throw new Error(`Unknown rating estimator: ${this.config.estimator}`);
+    }
+  }
+
+  /**
+   * (likes - dislikes) / total, scaled by log volume up to 1000 reactions
+   * The original formula, kept for weights tuned against it
+   */
+  private logConfidence({ likes, dislikes }: RatingInput): number {
+    const totalReactions = likes + dislikes;
+
+    if (totalReactions === 0) {
+      return 0; // No data
+    }
+
+    const ratio = (likes - dislikes) / totalReactions;
+    const confidence = Math.min(1, Math.log(1 + totalReactions) / Math.log(1000));
+
+    return ratio * confidence;
+  }
+
+  /**
+   * Lower bound of the Wilson score interval for the like rate
+   * Few reactions give a wide interval and so a low bound
+   */
+  private wilsonLowerBound({ likes, dislikes }: RatingInput): number {
+    const n = likes + dislikes;
+
+    if (n === 0) {
+      return 0; // No data
+    }
+
+    const z = this.config.wilsonZ;
+    const p = likes / n;
+    const zSquared = z * z;
+
+    const centre = p + zSquared / (2 * n);
+    const margin = z * Math.sqrt((p * (1 - p)) / n + zSquared / (4 * n * n));
+
+    return (centre - margin) / (1 + zSquared / n);
+  }
+
+  /**
+   * Like rate with the prior added as pseudo-reactions
+   * With no reactions this is the prior's like rate
+   */
+  private bayesianAverage({ likes, dislikes }: RatingInput, prior: RatingPrior): number {
+    const n = likes + dislikes;
+
+    return (likes + prior.likeRate * prior.strength) / (n + prior.strength);
+  }
+
+  /**
+   * Most specific prior configured for the context
+   */
+  private resolvePrior(context: RatingContext): RatingPrior {
+    const genrePrior =
+      context.genreId !== undefined
+        ? this.config.priorsByGenre?.[context.genreId]
+        : undefined;
+    const ageBandPrior =
+      context.ageBand !== undefined
+        ? this.config.priorsByAgeBand?.[context.ageBand]
+        : undefined;
+
+    return genrePrior ?? ageBandPrior ?? this.config.defaultPrior;
+  }
+}
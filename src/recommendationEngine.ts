@@ -5,14 +5,44 @@
  */
 
 import { CandidateGenerator, CandidateDataSource } from './candidateGenerator';
-import { EligibilityFilter } from './eligibilityFilter';
+import { EligibilityFilter, EligibilityAuditSink } from './eligibilityFilter';
 import { ScoringEngine } from './scoringEngine';
+import {
+  SignalRegistry,
+  createDefaultSignalRegistry,
+  createEmptyBreakdown,
+} from './scoringSignals';
 import { DiversityPass } from './diversityPass';
 import { SponsoredInjector, BucketOrganizer } from './bucketOrganizer';
-import { ChartGenerator, ChartDataSource } from './chartGenerator';
+import {
+  ChartGenerator,
+  ChartDataSource,
+  ChartGeneratorOptions,
+} from './chartGenerator';
+import { createDefaultChartSafetyHooks } from './chartSafety';
+import { GameCatalog } from './gameCatalog';
+import { ChartHydrator } from './chartHydrator';
+import { ChartCache, ChartStore, PrecomputeSummary } from './chartStore';
+import { ChartHistoryStore, ChartHistoryTracker } from './chartHistory';
+import { Clock, systemClock } from './clock';
+import { getActiveDismissedGames, dampGenreVector } from './dismissals';
+import {
+  ExplanationService,
+  RecommendationExplanation,
+  ReasonCode,
+} from './explanationService';
+import { SafetyRuleSet } from './safetyRules';
+import { ConfigLoader, ConfigPatch, mergeConfig } from './configLoader';
+import {
+  PipelineStage,
+  PipelineTrace,
+  StageTimer,
+  TracedRecommendations,
+} from './pipelineTrace';
 import {
   UserContext,
   UserHistory,
+  GuardianPolicy,
   RecommendationBucket,
   RecommendationConfig,
   ScoredGame,
@@ -21,9 +51,60 @@ import {
   Platform,
   ChartEntry,
   ChartType,
+  ChartWindow,
   GenreId,
+  GameId,
 } from './types';
 
+/**
+ * Settings read by each rebuildable component
+ */
+const ELIGIBILITY_SETTINGS: Array<keyof RecommendationConfig> = ['moderationThreshold'];
+const SCORING_SETTINGS: Array<keyof RecommendationConfig> = [
+  'weights',
+  'recencyDecayDays',
+  'creationGracePeriodDays',
+  'creationPenaltyMaxDays',
+  'sponsoredAmountMultiplier',
+  'maxSponsoredBoost',
+  'rating',
+  'dismissals',
+];
+const DIVERSITY_SETTINGS: Array<keyof RecommendationConfig> = [
+  'diversityRules',
+  'maxResults',
+];
+const SPONSORED_SETTINGS: Array<keyof RecommendationConfig> = ['maxSponsoredPerList'];
+const EXPLANATION_SETTINGS: Array<keyof RecommendationConfig> = ['weights'];
+const CHART_SETTINGS: Array<keyof RecommendationConfig> = [
+  'creationGracePeriodDays',
+  'rating',
+];
+
+/**
+ * Buckets served from charts, explained by why the chart picked the game
+ */
+const BUCKET_REASONS: Record<string, ReasonCode> = {
+  popular_by_age: ReasonCode.POPULAR_WITH_AGE_BAND,
+  new_and_trending: ReasonCode.TRENDING,
+};
+
+/**
+ * Optional collaborators for the recommendation engine
+ */
+export interface RecommendationEngineOptions {
+  gameCatalog?: GameCatalog; // Source of truth for served games; must agree with candidate sources
+  eligibilityAuditSink?: EligibilityAuditSink;
+  safetyRuleSet?: SafetyRuleSet;
+  chartStore?: ChartStore; // Enables precomputed, TTL-cached charts
+  chartTtlMs?: number;
+  chartHistoryStore?: ChartHistoryStore; // Adds rank movement to stored charts
+  chartPeriodMs?: number; // Length of a chart history period; defaults to one week
+  chartOptions?: Partial<ChartGeneratorOptions>;
+  signalRegistry?: SignalRegistry; // Defaults to the built-in signals
+  clock?: Clock; // Defaults to the system clock
+}
+
 /**
  * Main recommendation engine pipeline
  */
@@ -35,119 +116,371 @@ export class RecommendationEngine {
   private sponsoredInjector: SponsoredInjector;
   private bucketOrganizer: BucketOrganizer;
   private chartGenerator: ChartGenerator;
+  private explanationService: ExplanationService;
+  private chartHydrator?: ChartHydrator;
+  private chartCache?: ChartCache;
+  private signalRegistry: SignalRegistry;
+  private clock: Clock;
 
   constructor(
     private config: RecommendationConfig,
     candidateDataSource: CandidateDataSource,
-    chartDataSource: ChartDataSource,
-    sponsoredEnabled: boolean = true
+    private chartDataSource: ChartDataSource,
+    sponsoredEnabled: boolean = true,
+    private options: RecommendationEngineOptions = {}
   ) {
+    this.config = new ConfigLoader().validate(config);
+    this.clock = options.clock ?? systemClock;
+    this.signalRegistry = options.signalRegistry ?? createDefaultSignalRegistry();
     this.candidateGenerator = new CandidateGenerator(
       candidateDataSource,
       sponsoredEnabled
     );
-    this.eligibilityFilter = new EligibilityFilter({
-      moderationThreshold: config.moderationThreshold,
-    });
-    this.scoringEngine = new ScoringEngine(config);
-    this.diversityPass = new DiversityPass(config);
-    this.sponsoredInjector = new SponsoredInjector(config.maxSponsoredPerList);
+    this.eligibilityFilter = this.createEligibilityFilter();
+    this.scoringEngine = this.createScoringEngine();
+    this.diversityPass = new DiversityPass(this.config);
+    this.sponsoredInjector = new SponsoredInjector(this.config.maxSponsoredPerList);
     this.bucketOrganizer = new BucketOrganizer();
-    this.chartGenerator = new ChartGenerator(chartDataSource);
+    this.chartGenerator = this.createChartGenerator();
+    this.explanationService = new ExplanationService(this.config.weights);
+    this.chartHydrator = this.createChartHydrator();
+    this.chartCache = this.createChartCache();
+  }
+
+  private createEligibilityFilter(): EligibilityFilter {
+    return new EligibilityFilter(
+      {
+        moderationThreshold: this.config.moderationThreshold,
+        ruleSet: this.options.safetyRuleSet,
+      },
+      this.options.eligibilityAuditSink
+    );
+  }
+
+  private createScoringEngine(): ScoringEngine {
+    return new ScoringEngine(this.config, this.options.gameCatalog, this.signalRegistry);
+  }
+
+  /**
+   * Explicit chart options take precedence over the engine config
+   */
+  private createChartGenerator(): ChartGenerator {
+    const chartOptions = this.options.chartOptions;
+
+    return new ChartGenerator(this.chartDataSource, this.eligibilityFilter, {
+      ...chartOptions,
+      safetyHooks:
+        chartOptions?.safetyHooks ?? createDefaultChartSafetyHooks(this.config),
+      rating: chartOptions?.rating ?? this.config.rating,
+    });
+  }
+
+  /**
+   * Chart caching needs a chart store
+   */
+  private createChartCache(): ChartCache | undefined {
+    if (!this.options.chartStore) {
+      return undefined;
+    }
+
+    return new ChartCache(
+      this.chartGenerator,
+      this.options.chartStore,
+      { ttlMs: this.options.chartTtlMs, clock: this.clock },
+      this.options.chartHistoryStore
+        ? new ChartHistoryTracker(this.options.chartHistoryStore, {
+            periodMs: this.options.chartPeriodMs,
+          })
+        : undefined
+    );
+  }
+
+  /**
+   * Chart hydration needs a game catalog to resolve chart entries
+   */
+  private createChartHydrator(): ChartHydrator | undefined {
+    if (!this.options.gameCatalog) {
+      return undefined;
+    }
+
+    return new ChartHydrator(
+      this.options.gameCatalog,
+      this.eligibilityFilter,
+      this.scoringEngine
+    );
   }
 
   /**
    * Generate personalized recommendations for a user
    * Main pipeline execution
+   * An optional guardian policy further restricts every bucket
+   * Pass asOf to evaluate the request at another time, e.g. to replay it
    */
   async generateRecommendations(
     userContext: UserContext,
-    userHistory: UserHistory
+    userHistory: UserHistory,
+    guardianPolicy?: GuardianPolicy,
+    asOf?: Date
   ): Promise<RecommendationBucket[]> {
+    const result = await this.generateRecommendationsWithTrace(
+      userContext,
+      userHistory,
+      guardianPolicy,
+      asOf
+    );
+
+    return result.buckets;
+  }
+
+  /**
+   * Generate recommendations in trace mode
+   * Returns the buckets together with a per-stage report for debugging
+   */
+  async generateRecommendationsWithTrace(
+    userContext: UserContext,
+    userHistory: UserHistory,
+    guardianPolicy?: GuardianPolicy,
+    asOf?: Date
+  ): Promise<TracedRecommendations> {
+    const timer = new StageTimer();
+    const now = asOf ?? this.clock.now();
+    const dismissedGames = getActiveDismissedGames(
+      userHistory,
+      this.config.dismissals,
+      now
+    );
+    const personalContext = this.applyGenreDismissals(userContext, userHistory, now);
+
     // Stage 1: Generate candidates
-    const candidates = await this.candidateGenerator.generateCandidates(
-      userContext
+    const generation = await timer.time(PipelineStage.CANDIDATE_GENERATION, () =>
+      this.candidateGenerator.generateCandidatesWithSources(personalContext)
     );
+    const candidates = generation.candidates;
 
-    // Stage 2: Apply eligibility and safety filtering
-    const eligible = this.eligibilityFilter.filterEligible(candidates, userContext);
+    // Stage 2: Apply eligibility and safety filtering, then drop dismissed games
+    const decisions = await timer.time(PipelineStage.ELIGIBILITY, () =>
+      this.eligibilityFilter.evaluateEligibility(
+        candidates,
+        userContext,
+        guardianPolicy,
+        now
+      )
+    );
+    const allowed = candidates.filter((_, index) => decisions[index].eligible);
+    const eligible = allowed.filter((game) => !dismissedGames.has(game.gameId));
 
     // Stage 3: Score games
-    const scored = this.scoringEngine.scoreGames(eligible, userContext, userHistory);
+    const scored = await timer.time(PipelineStage.SCORING, () =>
+      this.scoringEngine.scoreGames(eligible, personalContext, userHistory, now)
+    );
 
     // Stage 4: Apply diversity pass
-    const diversified = this.diversityPass.diversify(scored);
+    const diversity = await timer.time(PipelineStage.DIVERSITY, () =>
+      this.diversityPass.diversifyWithReport(scored)
+    );
+    const diversified = diversity.diversified;
 
     // Stage 5: Inject sponsored content
     const sponsoredGames = scored.filter((sg) => sg.game.isSponsored);
-    const withSponsored = this.sponsoredInjector.injectSponsored(
-      diversified,
-      sponsoredGames
+    const injection = await timer.time(PipelineStage.SPONSORED_INJECTION, () =>
+      this.sponsoredInjector.injectSponsoredWithSlots(diversified, sponsoredGames)
     );
+    const withSponsored = injection.games;
 
     // Stage 6: Organize into buckets
-    const popularGames = await this.getPopularGames(userContext);
-    const trendingGames = await this.getTrendingGames(userContext);
+    const buckets = await timer.time(PipelineStage.BUCKETING, async () => {
+      const popularGames = await this.getPopularGames(
+        userContext,
+        guardianPolicy,
+        now
+      );
+      const trendingGames = await this.getTrendingGames(
+        personalContext,
+        userHistory,
+        guardianPolicy,
+        asOf
+      );
 
-    const buckets = this.bucketOrganizer.organizeBuckets(
-      withSponsored,
-      popularGames,
-      trendingGames,
-      sponsoredGames
+      return this.bucketOrganizer.organizeBuckets(
+        withSponsored,
+        popularGames.filter((sg) => !dismissedGames.has(sg.game.gameId)),
+        trendingGames.filter((sg) => !dismissedGames.has(sg.game.gameId)),
+        sponsoredGames
+      );
+    });
+
+    const trace: PipelineTrace = {
+      candidateGeneration: {
+        sources: generation.sources,
+        totalCandidates: candidates.length,
+      },
+      eligibility: {
+        eligibleCount: eligible.length,
+        rejected: decisions.filter((decision) => !decision.eligible),
+        dismissed: allowed
+          .filter((game) => dismissedGames.has(game.gameId))
+          .map((game) => game.gameId),
+      },
+      scoring: { scored },
+      diversity: {
+        kept: diversified.map((sg) => sg.game.gameId),
+        skipped: diversity.skipped,
+      },
+      sponsoredInjection: {
+        slots: injection.slots,
+        injected: injection.slots.map((slot) => withSponsored[slot].game.gameId),
+      },
+      timingsMs: timer.getTimings(),
+    };
+
+    return { buckets, trace };
+  }
+
+  /**
+   * Explain why a game in a returned bucket was recommended
+   * Pass the bucket the game was served in. Games not in it, no longer
+   * eligible for the user, or since dismissed by them are rejected. Scored buckets are explained by
+   * re-scoring the game, so no per-user results are retained; chart-driven
+   * buckets lead with the chart's own reason. The game is re-fetched from
+   * the game catalog, which must agree with the candidate sources.
+   */
+  async explainGame(
+    bucket: RecommendationBucket,
+    gameId: GameId,
+    userContext: UserContext,
+    userHistory: UserHistory,
+    guardianPolicy?: GuardianPolicy,
+    maxReasons: number = 3,
+    asOf?: Date
+  ): Promise<RecommendationExplanation> {
+    if (!this.options.gameCatalog) {
+      throw new Error('A game catalog is required to explain recommendations');
+    }
+    if (!bucket.games.includes(gameId)) {
+      throw new Error(`Game ${gameId} is not in bucket ${bucket.id}`);
+    }
+
+    const [game] = await this.options.gameCatalog.getGamesByIds([gameId]);
+    if (!game) {
+      throw new Error(`Unknown game: ${gameId}`);
+    }
+
+    const now = asOf ?? this.clock.now();
+    const decision = this.eligibilityFilter.explainEligibility(
+      game,
+      userContext,
+      guardianPolicy,
+      now
+    );
+    if (!decision.eligible) {
+      throw new Error(`Game ${gameId} is not eligible for this user`);
+    }
+    if (getActiveDismissedGames(userHistory, this.config.dismissals, now).has(gameId)) {
+      throw new Error(`Game ${gameId} was dismissed by this user`);
+    }
+
+    const bucketReason = BUCKET_REASONS[bucket.id];
+
+    // Popular games are not scored for the user, so only the chart explains them
+    if (bucketReason === ReasonCode.POPULAR_WITH_AGE_BAND) {
+      return this.explanationService.explainWithBucketReason(
+        bucketReason,
+        {
+          game,
+          score: 0,
+          breakdown: createEmptyBreakdown(this.scoringEngine.getSignalIds()),
+        },
+        userContext,
+        maxReasons
+      );
+    }
+
+    const [scoredGame] = await this.scoringEngine.scoreGames(
+      [game],
+      this.applyGenreDismissals(userContext, userHistory, now),
+      userHistory,
+      now
     );
 
-    return buckets;
+    return bucketReason
+      ? this.explanationService.explainWithBucketReason(
+          bucketReason,
+          scoredGame,
+          userContext,
+          maxReasons
+        )
+      : this.explanationService.explain(scoredGame, userContext, maxReasons);
   }
 
   /**
    * Generate a specific chart
+   * Charts as of an explicit time are always computed live, never cached
    */
   async generateChart(
     chartType: ChartType,
     ageBand: AgeBand,
     platform: Platform,
     limit: number = 50,
-    genreId?: GenreId
+    genreId?: GenreId,
+    guardianPolicy?: GuardianPolicy,
+    window?: ChartWindow,
+    asOf?: Date
   ): Promise<ChartEntry[]> {
-    switch (chartType) {
-      case ChartType.TOP_TRENDING:
-        return this.chartGenerator.generateTopTrending(ageBand, platform, limit);
-
-      case ChartType.UP_AND_COMING:
-        return this.chartGenerator.generateUpAndComing(ageBand, platform, limit);
+    const key = { chartType, ageBand, platform, genreId, window };
 
-      case ChartType.TOP_PLAYING_NOW:
-        return this.chartGenerator.generateTopPlayingNow(ageBand, platform, limit);
-
-      case ChartType.TOP_REPLAYED:
-        return this.chartGenerator.generateTopReplayed(ageBand, platform, limit);
+    if (this.chartCache && !asOf) {
+      return this.chartCache.getChart(key, limit, guardianPolicy);
+    }
 
-      case ChartType.TOP_EARNING:
-        return this.chartGenerator.generateTopEarning(ageBand, platform, limit);
+    return this.chartGenerator.generateChart(
+      key,
+      limit,
+      guardianPolicy,
+      asOf ?? this.clock.now()
+    );
+  }
 
-      case ChartType.TOP_RATED:
-        return this.chartGenerator.generateTopRated(ageBand, platform, limit);
+  /**
+   * Refresh every precomputed chart
+   * Scheduler entry point; requires a chart store
+   * With a chart history store, each call records the current chart
+   * period; calls within the same period replace its snapshot
+   */
+  async precomputeCharts(genreIds: GenreId[] = []): Promise<PrecomputeSummary> {
+    if (!this.chartCache) {
+      throw new Error('A chart store is required to precompute charts');
+    }
 
-      case ChartType.TRENDING_IN_GENRE:
-        if (!genreId) {
-          throw new Error('genreId is required for TRENDING_IN_GENRE chart');
-        }
-        return this.chartGenerator.generateTrendingInGenre(
-          genreId,
-          ageBand,
-          platform,
-          limit
-        );
+    return this.chartCache.precomputeAll(genreIds);
+  }
 
-      default:
-        throw new Error(`Unknown chart type: ${chartType}`);
-    }
+  /**
+   * User context with dismissed genres down-weighted in the genre vector
+   */
+  private applyGenreDismissals(
+    userContext: UserContext,
+    userHistory: UserHistory,
+    asOf: Date
+  ): UserContext {
+    return {
+      ...userContext,
+      genreVector: dampGenreVector(
+        userContext.genreVector,
+        userHistory,
+        this.config.dismissals,
+        asOf
+      ),
+    };
   }
 
   /**
    * Helper: Get popular games for user's age band
    */
-  private async getPopularGames(userContext: UserContext): Promise<ScoredGame[]> {
+  private async getPopularGames(
+    userContext: UserContext,
+    guardianPolicy: GuardianPolicy | undefined,
+    asOf: Date
+  ): Promise<ScoredGame[]> {
     const popularGames = await this.candidateGenerator.getPopularGamesByAgeBand(
       userContext.ageBand,
       20
@@ -155,39 +488,48 @@ export class RecommendationEngine {
 
     const eligible = this.eligibilityFilter.filterEligible(
       popularGames,
-      userContext
+      userContext,
+      guardianPolicy,
+      asOf
     );
 
     return eligible.map((game) => ({
       game,
       score: 0,
-      breakdown: {
-        genreAffinity: 0,
-        ageBandPopularity: 0,
-        engagementSimilarity: 0,
-        favouriteAffinity: 0,
-        communityRating: 0,
-        recencyBoost: 0,
-        sponsoredBoost: 0,
-        repetitionPenalty: 0,
-        creationRecencyPenalty: 0,
-      },
+      breakdown: createEmptyBreakdown(this.scoringEngine.getSignalIds()),
     }));
   }
 
   /**
    * Helper: Get trending games
+   * Hydrates the Top Trending chart and re-ranks it for the user
    */
-  private async getTrendingGames(userContext: UserContext): Promise<ScoredGame[]> {
-    const trendingEntries = await this.chartGenerator.generateTopTrending(
+  private async getTrendingGames(
+    userContext: UserContext,
+    userHistory: UserHistory,
+    guardianPolicy?: GuardianPolicy,
+    asOf?: Date
+  ): Promise<ScoredGame[]> {
+    if (!this.chartHydrator) {
+      return [];
+    }
+
+    const trendingEntries = await this.generateChart(
+      ChartType.TOP_TRENDING,
       userContext.ageBand,
       userContext.platform,
-      20
+      20,
+      undefined,
+      guardianPolicy,
+      undefined,
+      asOf
     );
 
-    // This would need to fetch the actual game objects
-    // For now, return empty array as placeholder
-    return [];
+    return this.chartHydrator.hydrate(trendingEntries, userContext, {
+      guardianPolicy,
+      userHistory,
+      asOf: asOf ?? this.clock.now(),
+    });
   }
 
   /**
@@ -199,10 +541,47 @@ export class RecommendationEngine {
 
   /**
    * Update configuration
+   * The patch is deep-merged and validated; on error the current config is
+   * kept. Every component reading a changed setting is rebuilt. Charts
+   * already in the chart store keep their old values until their TTL expires.
    */
-  updateConfig(newConfig: Partial<RecommendationConfig>): void {
-    this.config = { ...this.config, ...newConfig };
-    this.scoringEngine = new ScoringEngine(this.config);
-    this.diversityPass = new DiversityPass(this.config);
+  updateConfig(patch: ConfigPatch): void {
+    const next = new ConfigLoader().validate(mergeConfig(this.config, patch));
+    const changed = new Set(
+      (Object.keys(patch) as Array<keyof RecommendationConfig>).filter(
+        (key) => patch[key] !== undefined
+      )
+    );
+    const affects = (settings: Array<keyof RecommendationConfig>) =>
+      settings.some((setting) => changed.has(setting));
+
+    this.config = next;
+
+    const rebuildEligibility = affects(ELIGIBILITY_SETTINGS);
+    const rebuildScoring = affects(SCORING_SETTINGS);
+    const rebuildCharts = rebuildEligibility || affects(CHART_SETTINGS);
+
+    if (rebuildEligibility) {
+      this.eligibilityFilter = this.createEligibilityFilter();
+    }
+    if (rebuildScoring) {
+      this.scoringEngine = this.createScoringEngine();
+    }
+    if (affects(DIVERSITY_SETTINGS)) {
+      this.diversityPass = new DiversityPass(this.config);
+    }
+    if (affects(SPONSORED_SETTINGS)) {
+      this.sponsoredInjector = new SponsoredInjector(this.config.maxSponsoredPerList);
+    }
+    if (affects(EXPLANATION_SETTINGS)) {
+      this.explanationService = new ExplanationService(this.config.weights);
+    }
+    if (rebuildCharts) {
+      this.chartGenerator = this.createChartGenerator();
+      this.chartCache = this.createChartCache();
+    }
+    if (rebuildEligibility || rebuildScoring) {
+      this.chartHydrator = this.createChartHydrator();
+    }
   }
 }
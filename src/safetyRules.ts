@@ -0,0 +1,274 @@
+/**
+ * Declarative Safety Rules Module
+ *
+ * Safety rules expressed as versioned data so they can be changed
+ * without editing code. Rule sets are validated before use.
+ *
+ * A rule set can never loosen the filter: rules can only reject games, the
+ * rules of DEFAULT_SAFETY_RULE_SET must be kept unchanged, the age-band
+ * order must keep its fixed ordering, and the moderation threshold can
+ * only raise the engine's.
+ */
+
+import { readFileSync } from 'fs';
+import { AgeBand, GameFeature, Platform } from './types';
+import { DEFAULT_SAFETY_RULE_SET } from './config';
+
+/**
+ * Conditions a rule matches on. All given conditions must hold;
+ * omitted conditions match everything.
+ */
+export interface SafetyRuleCondition {
+  userAgeBands?: AgeBand[];
+  userPlatforms?: Platform[];
+  gameFeatures?: GameFeature[]; // Matches if the game has any of these
+}
+
+/**
+ * A single declarative rule
+ */
+export interface SafetyRule {
+  id: string;
+  description?: string;
+  when: SafetyRuleCondition;
+  action: 'REJECT';
+}
+
+/**
+ * Versioned set of safety rules
+ */
+export interface SafetyRuleSet {
+  version: string;
+  ageBandOrder: Record<AgeBand, number>; // Must keep UNDER_9 < AGE_9_TO_12 < AGE_13_PLUS
+  moderationThreshold?: number; // Raises the engine threshold; never lowers it
+  rules: SafetyRule[];
+}
+
+/**
+ * Age bands from youngest to oldest
+ * Rule sets may renumber them but never reorder them
+ */
+const AGE_BAND_SEQUENCE: AgeBand[] = [
+  AgeBand.UNDER_9,
+  AgeBand.AGE_9_TO_12,
+  AgeBand.AGE_13_PLUS,
+];
+
+/**
+ * Rule IDs reserved for checks that are not declarative
+ */
+const RESERVED_RULE_IDS = new Set([
+  'AGE_BAND',
+  'MODERATION_THRESHOLD',
+  'PLATFORM_COMPATIBILITY',
+  'GUARDIAN_BLOCKED_GAME',
+  'GUARDIAN_BLOCKED_FEATURE',
+  'GUARDIAN_BLOCKED_GENRE',
+  'GUARDIAN_LOW_INTENSITY_ONLY',
+]);
+
+/**
+ * Loads and validates safety rule sets from JSON
+ */
+export class SafetyRuleSetLoader {
+  /**
+   * Load a rule set from a JSON file
+   */
+  loadFromFile(path: string): SafetyRuleSet {
+    return this.parse(readFileSync(path, 'utf8'));
+  }
+
+  /**
+   * Parse a rule set from a JSON string
+   */
+  parse(json: string): SafetyRuleSet {
+    let input: unknown;
+    try {
+      input = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Invalid safety rule set: ${(error as Error).message}`);
+    }
+
+    return this.validate(input);
+  }
+
+  /**
+   * Validate an untyped object against the rule set schema
+   * Throws an error listing every problem found
+   */
+  validate(input: unknown): SafetyRuleSet {
+    const errors: string[] = [];
+
+    if (!this.isObject(input)) {
+      throw new Error('Invalid safety rule set: expected an object');
+    }
+
+    if (typeof input.version !== 'string' || input.version.length === 0) {
+      errors.push('version must be a non-empty string');
+    }
+
+    if (!this.isObject(input.ageBandOrder)) {
+      errors.push('ageBandOrder must be an object');
+    } else {
+      const order = input.ageBandOrder;
+      for (const ageBand of Object.values(AgeBand)) {
+        if (!Number.isFinite(order[ageBand])) {
+          errors.push(`ageBandOrder.${ageBand} must be a finite number`);
+        }
+      }
+
+      for (let i = 1; i < AGE_BAND_SEQUENCE.length; i++) {
+        const younger = AGE_BAND_SEQUENCE[i - 1];
+        const older = AGE_BAND_SEQUENCE[i];
+        if (!((order[younger] as number) < (order[older] as number))) {
+          errors.push(`ageBandOrder.${younger} must be less than ageBandOrder.${older}`);
+        }
+      }
+    }
+
+    if (input.moderationThreshold !== undefined) {
+      const threshold = input.moderationThreshold;
+      if (typeof threshold !== 'number' || !(threshold >= 0 && threshold <= 1)) {
+        errors.push('moderationThreshold must be a number between 0 and 1');
+      }
+    }
+
+    if (!Array.isArray(input.rules)) {
+      errors.push('rules must be an array');
+    } else {
+      const seenIds = new Set<string>();
+      input.rules.forEach((rule, index) =>
+        this.validateRule(rule, `rules[${index}]`, seenIds, errors)
+      );
+      this.checkBaselineRules(input.rules, errors);
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid safety rule set:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    return input as unknown as SafetyRuleSet;
+  }
+
+  /**
+   * Validate a single rule, appending problems to errors
+   */
+  private validateRule(
+    rule: unknown,
+    path: string,
+    seenIds: Set<string>,
+    errors: string[]
+  ): void {
+    if (!this.isObject(rule)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    if (typeof rule.id !== 'string' || rule.id.length === 0) {
+      errors.push(`${path}.id must be a non-empty string`);
+    } else if (RESERVED_RULE_IDS.has(rule.id)) {
+      errors.push(`${path}.id "${rule.id}" is reserved`);
+    } else if (seenIds.has(rule.id)) {
+      errors.push(`${path}.id "${rule.id}" is duplicated`);
+    } else {
+      seenIds.add(rule.id);
+    }
+
+    if (rule.description !== undefined && typeof rule.description !== 'string') {
+      errors.push(`${path}.description must be a string`);
+    }
+
+    if (rule.action !== 'REJECT') {
+      errors.push(`${path}.action must be "REJECT"`);
+    }
+
+    if (!this.isObject(rule.when)) {
+      errors.push(`${path}.when must be an object`);
+      return;
+    }
+
+    const conditions: Array<[string, string[]]> = [
+      ['userAgeBands', Object.values(AgeBand)],
+      ['userPlatforms', Object.values(Platform)],
+      ['gameFeatures', Object.values(GameFeature)],
+    ];
+
+    let conditionCount = 0;
+    for (const [key, allowed] of conditions) {
+      const values = rule.when[key];
+      if (values === undefined) {
+        continue;
+      }
+
+      conditionCount++;
+      if (!Array.isArray(values) || values.length === 0) {
+        errors.push(`${path}.when.${key} must be a non-empty array`);
+        continue;
+      }
+
+      for (const value of values) {
+        if (!allowed.includes(value)) {
+          errors.push(`${path}.when.${key} contains unknown value "${value}"`);
+        }
+      }
+    }
+
+    if (conditionCount === 0) {
+      errors.push(`${path}.when must set at least one condition`);
+    }
+  }
+
+  /**
+   * Every default rule must be present with the same conditions
+   * Loaded sets may add rules but never drop or narrow the baseline
+   */
+  private checkBaselineRules(rules: unknown[], errors: string[]): void {
+    for (const baseline of DEFAULT_SAFETY_RULE_SET.rules) {
+      const rule = rules.find(
+        (candidate) => this.isObject(candidate) && candidate.id === baseline.id
+      );
+
+      if (!this.isObject(rule)) {
+        errors.push(`rules must include baseline rule ${baseline.id}`);
+      } else if (
+        !this.sameConditions(rule.when, baseline.when) ||
+        rule.action !== baseline.action
+      ) {
+        errors.push(`rules must keep baseline rule ${baseline.id} unchanged`);
+      }
+    }
+  }
+
+  /**
+   * Condition lists compared as sets, so their order does not matter
+   */
+  private sameConditions(when: unknown, baseline: SafetyRuleCondition): boolean {
+    if (!this.isObject(when)) {
+      return false;
+    }
+
+    const keys: Array<keyof SafetyRuleCondition> = [
+      'userAgeBands',
+      'userPlatforms',
+      'gameFeatures',
+    ];
+    return keys.every((key) => {
+      const values = when[key];
+      const expected: string[] | undefined = baseline[key];
+
+      if (expected === undefined || values === undefined) {
+        return expected === values;
+      }
+
+      return (
+        Array.isArray(values) &&
+        values.length === expected.length &&
+        expected.every((value) => values.includes(value))
+      );
+    });
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * Scoring Signals Module
+ *
+ * Registry of the independent signals combined into a game's score.
+ * Each signal is weighted by `RecommendationConfig.weights[signal.id]`.
+ */
+
+import {
+  Game,
+  GameFeature,
+  GenreVector,
+  SignalId,
+  ScoreBreakdown,
+  UserContext,
+  UserHistory,
+  RecommendationConfig,
+} from './types';
+import { RatingCalculator } from './rating';
+import { getDismissedGenreShare } from './dismissals';
+
+/**
+ * Whether a signal raises or lowers the score
+ */
+export enum SignalKind {
+  BOOST = 'BOOST',
+  PENALTY = 'PENALTY',
+}
+
+/**
+ * IDs of the built-in signals
+ * These are also the keys of DEFAULT_CONFIG.weights
+ */
+export enum BuiltInSignal {
+  GENRE_AFFINITY = 'genreAffinity',
+  AGE_BAND_POPULARITY = 'ageBandPopularity',
+  ENGAGEMENT_SIMILARITY = 'engagementSimilarity',
+  FAVOURITE_AFFINITY = 'favouriteAffinity',
+  COMMUNITY_RATING = 'communityRating',
+  RECENCY_BOOST = 'recencyBoost',
+  SPONSORED_BOOST = 'sponsoredBoost',
+  REPETITION_PENALTY = 'repetitionPenalty',
+  CREATION_RECENCY_PENALTY = 'creationRecencyPenalty',
+  DISMISSED_GENRE_PENALTY = 'dismissedGenrePenalty',
+}
+
+/**
+ * User history resolved to game metadata for a single request
+ */
+export interface ResolvedHistory {
+  longPlayGames: Game[];
+  likedGames: Game[];
+  favouritedGames: Game[];
+}
+
+/**
+ * Everything a signal can read when scoring a game
+ * Built once per scoring request and shared by every game
+ */
+export interface SignalContext {
+  userContext: UserContext;
+  userHistory: UserHistory;
+  resolvedHistory: ResolvedHistory; // Empty when no game catalog is configured
+  config: RecommendationConfig;
+  ratingCalculator: RatingCalculator; // Built from config.rating
+  asOf: Date; // Time the request is evaluated at; never read the system clock
+}
+
+/**
+ * A single scoring signal
+ * compute returns the raw, unweighted value; penalties return a positive
+ * value that is subtracted from the score
+ */
+export interface ScoringSignal {
+  id: SignalId;
+  kind: SignalKind;
+  compute(game: Game, context: SignalContext): number;
+}
+
+/**
+ * Ordered set of scoring signals
+ */
+export class SignalRegistry {
+  private signals = new Map<SignalId, ScoringSignal>();
+
+  constructor(signals: ScoringSignal[] = []) {
+    for (const signal of signals) {
+      this.register(signal);
+    }
+  }
+
+  /**
+   * Add a signal; IDs must be unique
+   */
+  register(signal: ScoringSignal): this {
+    if (this.signals.has(signal.id)) {
+      throw new Error(`Scoring signal already registered: ${signal.id}`);
+    }
+
+    this.signals.set(signal.id, signal);
+    return this;
+  }
+
+  /**
+   * Remove a signal, returning whether it was registered
+   */
+  unregister(signalId: SignalId): boolean {
+    return this.signals.delete(signalId);
+  }
+
+  get(signalId: SignalId): ScoringSignal | undefined {
+    return this.signals.get(signalId);
+  }
+
+  /**
+   * All signals, in registration order
+   */
+  getAll(): ScoringSignal[] {
+    return [...this.signals.values()];
+  }
+
+  getIds(): SignalId[] {
+    return [...this.signals.keys()];
+  }
+}
+
+/**
+ * Weights for combining item-to-item similarity components
+ */
+const GENRE_SIMILARITY_WEIGHT = 0.7;
+const FEATURE_SIMILARITY_WEIGHT = 0.3;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Cosine similarity between two genre vectors
+ */
+function cosineSimilarity(vec1: GenreVector, vec2: GenreVector): number {
+  let dotProduct = 0;
+  let magnitude1 = 0;
+  let magnitude2 = 0;
+
+  // Get all unique genre IDs
+  const allGenres = new Set([...vec1.keys(), ...vec2.keys()]);
+
+  for (const genreId of allGenres) {
+    const weight1 = vec1.get(genreId) || 0;
+    const weight2 = vec2.get(genreId) || 0;
+
+    dotProduct += weight1 * weight2;
+    magnitude1 += weight1 * weight1;
+    magnitude2 += weight2 * weight2;
+  }
+
+  magnitude1 = Math.sqrt(magnitude1);
+  magnitude2 = Math.sqrt(magnitude2);
+
+  if (magnitude1 === 0 || magnitude2 === 0) {
+    return 0;
+  }
+
+  return dotProduct / (magnitude1 * magnitude2);
+}
+
+/**
+ * Jaccard similarity between two feature sets
+ */
+function featureSimilarity(
+  features1: Set<GameFeature>,
+  features2: Set<GameFeature>
+): number {
+  const union = new Set([...features1, ...features2]);
+
+  if (union.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const feature of features1) {
+    if (features2.has(feature)) {
+      shared++;
+    }
+  }
+
+  return shared / union.size;
+}
+
+/**
+ * Item-to-item similarity: genre-vector cosine plus shared features
+ */
+function itemSimilarity(game: Game, other: Game): number {
+  return (
+    GENRE_SIMILARITY_WEIGHT * cosineSimilarity(game.genreVector, other.genreVector) +
+    FEATURE_SIMILARITY_WEIGHT * featureSimilarity(game.features, other.features)
+  );
+}
+
+/**
+ * Average item-to-item similarity to a list of games
+ */
+function averageSimilarityToList(game: Game, games: Game[]): number {
+  if (games.length === 0) {
+    return 0;
+  }
+
+  let total = 0;
+  for (const other of games) {
+    total += itemSimilarity(game, other);
+  }
+
+  return total / games.length;
+}
+
+/**
+ * Genre affinity using cosine similarity
+ */
+const genreAffinity: ScoringSignal = {
+  id: BuiltInSignal.GENRE_AFFINITY,
+  kind: SignalKind.BOOST,
+  compute: (game, { userContext }) =>
+    cosineSimilarity(userContext.genreVector, game.genreVector),
+};
+
+/**
+ * Age-band popularity using logarithmic scale
+ */
+const ageBandPopularity: ScoringSignal = {
+  id: BuiltInSignal.AGE_BAND_POPULARITY,
+  kind: SignalKind.BOOST,
+  compute: (game, { userContext }) =>
+    Math.log(1 + (game.playsByAgeBand.get(userContext.ageBand) || 0)),
+};
+
+/**
+ * Engagement similarity based on user history
+ * Compares the game with games the user has played for long or liked
+ */
+const engagementSimilarity: ScoringSignal = {
+  id: BuiltInSignal.ENGAGEMENT_SIMILARITY,
+  kind: SignalKind.BOOST,
+  compute: (game, { resolvedHistory }) => {
+    const longPlaySimilarity = averageSimilarityToList(
+      game,
+      resolvedHistory.longPlayGames
+    );
+    const likedSimilarity = averageSimilarityToList(game, resolvedHistory.likedGames);
+
+    return (longPlaySimilarity + likedSimilarity) / 2;
+  },
+};
+
+/**
+ * Favourite affinity based on user's favourited games
+ * Favourites are a stronger signal than likes
+ */
+const favouriteAffinity: ScoringSignal = {
+  id: BuiltInSignal.FAVOURITE_AFFINITY,
+  kind: SignalKind.BOOST,
+  compute: (game, { resolvedHistory }) =>
+    // 50% stronger than regular similarity
+    averageSimilarityToList(game, resolvedHistory.favouritedGames) * 1.5,
+};
+
+/**
+ * Community rating based on likes vs dislikes
+ * Range depends on the configured rating estimator
+ */
+const communityRating: ScoringSignal = {
+  id: BuiltInSignal.COMMUNITY_RATING,
+  kind: SignalKind.BOOST,
+  compute: (game, { userContext, ratingCalculator }) =>
+    ratingCalculator.rateGame(game, userContext.ageBand),
+};
+
+/**
+ * Recency boost with exponential decay
+ */
+const recencyBoost: ScoringSignal = {
+  id: BuiltInSignal.RECENCY_BOOST,
+  kind: SignalKind.BOOST,
+  compute: (game, { config, asOf }) => {
+    const daysSinceRelease = Math.floor(
+      (asOf.getTime() - game.releaseDate.getTime()) / DAY_MS
+    );
+
+    return Math.exp(-daysSinceRelease / config.recencyDecayDays);
+  },
+};
+
+/**
+ * Sponsored boost (capped)
+ * Boost is proportional to sponsoredAmount with a multiplier and maximum cap
+ */
+const sponsoredBoost: ScoringSignal = {
+  id: BuiltInSignal.SPONSORED_BOOST,
+  kind: SignalKind.BOOST,
+  compute: (game, { config }) => {
+    if (!game.isSponsored || game.sponsoredAmount <= 0) {
+      return 0;
+    }
+
+    const rawBoost = game.sponsoredAmount * config.sponsoredAmountMultiplier;
+    return Math.min(rawBoost, config.maxSponsoredBoost);
+  },
+};
+
+/**
+ * Repetition penalty for heavily played games
+ */
+const repetitionPenalty: ScoringSignal = {
+  id: BuiltInSignal.REPETITION_PENALTY,
+  kind: SignalKind.PENALTY,
+  compute: (game, { userHistory }) =>
+    userHistory.heavilyPlayed.has(game.gameId) ? 1.0 : 0,
+};
+
+/**
+ * Creation recency penalty
+ * Penalizes newly created games as potential scams or low-quality content
+ * Penalty decays over time as game proves itself
+ */
+const creationRecencyPenalty: ScoringSignal = {
+  id: BuiltInSignal.CREATION_RECENCY_PENALTY,
+  kind: SignalKind.PENALTY,
+  compute: (game, { config, asOf }) => {
+    const daysSinceCreation = Math.floor(
+      (asOf.getTime() - game.creationDate.getTime()) / DAY_MS
+    );
+
+    // Full penalty for games within grace period
+    if (daysSinceCreation < config.creationGracePeriodDays) {
+      return 1.0;
+    }
+
+    // No penalty for games older than max penalty days
+    if (daysSinceCreation >= config.creationPenaltyMaxDays) {
+      return 0;
+    }
+
+    // Linear decay from grace period to max penalty days
+    const decayRange = config.creationPenaltyMaxDays - config.creationGracePeriodDays;
+    const daysInDecay = daysSinceCreation - config.creationGracePeriodDays;
+
+    return 1.0 - daysInDecay / decayRange;
+  },
+};
+
+/**
+ * Dismissed genre penalty
+ * Share of the game's genres the user marked "not interested", fading as
+ * each dismissal ages
+ */
+const dismissedGenrePenalty: ScoringSignal = {
+  id: BuiltInSignal.DISMISSED_GENRE_PENALTY,
+  kind: SignalKind.PENALTY,
+  compute: (game, { userHistory, config, asOf }) =>
+    getDismissedGenreShare(game, userHistory, config.dismissals, asOf),
+};
+
+/**
+ * The built-in signals, in their original order
+ */
+export function createBuiltInSignals(): ScoringSignal[] {
+  return [
+    genreAffinity,
+    ageBandPopularity,
+    engagementSimilarity,
+    favouriteAffinity,
+    communityRating,
+    recencyBoost,
+    sponsoredBoost,
+    repetitionPenalty,
+    creationRecencyPenalty,
+    dismissedGenrePenalty,
+  ];
+}
+
+/**
+ * Registry holding the built-in signals
+ * Register custom signals on it and add their weights to the config
+ */
+export function createDefaultSignalRegistry(): SignalRegistry {
+  return new SignalRegistry(createBuiltInSignals());
+}
+
+/**
+ * Breakdown with every signal set to zero, for games that were not scored
+ */
+export function createEmptyBreakdown(
+  signalIds: SignalId[] = Object.values(BuiltInSignal)
+): ScoreBreakdown {
+  const breakdown: ScoreBreakdown = {};
+
+  for (const signalId of signalIds) {
+    breakdown[signalId] = 0;
+  }
+
+  return breakdown;
+}
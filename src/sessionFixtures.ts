@@ -0,0 +1,349 @@
+/**
+ * Session Fixtures Module
+ *
+ * Logged sessions stored as JSON, for offline evaluation. JSON has no Map,
+ * Set or Date, so fixtures use objects, arrays and ISO 8601 strings, which
+ * are converted here after validation.
+ */
+
+import { readFileSync } from 'fs';
+import {
+  AgeBand,
+  Platform,
+  GameFeature,
+  Game,
+  GameId,
+  GenreVector,
+  UserContext,
+  UserHistory,
+} from './types';
+
+/**
+ * A logged session to replay
+ */
+export interface LoggedSession {
+  sessionId: string;
+  asOf: Date; // When the session was served
+  userContext: UserContext;
+  userHistory: UserHistory;
+  candidates: GameId[]; // Candidates the live pipeline considered
+  played: GameId[]; // Games the user actually played afterwards
+}
+
+/**
+ * Game catalog together with the sessions that reference it
+ */
+export interface SessionFixture {
+  games: Game[];
+  sessions: LoggedSession[];
+}
+
+const NUMERIC_GAME_FIELDS = [
+  'moderationScore',
+  'sponsoredAmount',
+  'totalSessions',
+  'uniquePlayers',
+  'currentSessions',
+  'totalRevenue',
+  'likes',
+  'dislikes',
+  'favourites',
+  'totalPlays',
+] as const;
+
+/**
+ * Loads and validates session fixtures from JSON
+ */
+export class SessionFixtureLoader {
+  /**
+   * Load a fixture from a JSON file
+   */
+  loadFromFile(path: string): SessionFixture {
+    return this.parse(readFileSync(path, 'utf8'));
+  }
+
+  /**
+   * Parse a fixture from a JSON string
+   */
+  parse(json: string): SessionFixture {
+    let input: unknown;
+    try {
+      input = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Invalid session fixture: ${(error as Error).message}`);
+    }
+
+    return this.validate(input);
+  }
+
+  /**
+   * Validate an untyped object and convert it to games and sessions
+   * Throws an error listing every problem found
+   */
+  validate(input: unknown): SessionFixture {
+    const errors: string[] = [];
+
+    if (!this.isObject(input)) {
+      throw new Error('Invalid session fixture: expected an object');
+    }
+    if (!Array.isArray(input.games)) {
+      errors.push('games must be an array');
+    }
+    if (!Array.isArray(input.sessions)) {
+      errors.push('sessions must be an array');
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid session fixture:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    const games = (input.games as unknown[]).map((game, index) =>
+      this.toGame(game, `games[${index}]`, errors)
+    );
+    const gameIds = new Set(games.map((game) => game.gameId));
+    const sessions = (input.sessions as unknown[]).map((session, index) =>
+      this.toSession(session, `sessions[${index}]`, gameIds, errors)
+    );
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid session fixture:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    return { games, sessions };
+  }
+
+  private toGame(input: unknown, path: string, errors: string[]): Game {
+    if (!this.isObject(input)) {
+      errors.push(`${path} must be an object`);
+      return {} as Game;
+    }
+
+    if (typeof input.gameId !== 'string') {
+      errors.push(`${path}.gameId must be a string`);
+    }
+    if (typeof input.isSponsored !== 'boolean') {
+      errors.push(`${path}.isSponsored must be a boolean`);
+    }
+    for (const field of NUMERIC_GAME_FIELDS) {
+      if (!Number.isFinite(input[field])) {
+        errors.push(`${path}.${field} must be a finite number`);
+      }
+    }
+
+    const playsByAgeBand = new Map<AgeBand, number>();
+    if (!this.isObject(input.playsByAgeBand)) {
+      errors.push(`${path}.playsByAgeBand must be an object`);
+    } else {
+      for (const [ageBand, plays] of Object.entries(input.playsByAgeBand)) {
+        this.checkEnum(AgeBand, ageBand, `${path}.playsByAgeBand key`, errors);
+        if (!Number.isFinite(plays)) {
+          errors.push(`${path}.playsByAgeBand.${ageBand} must be a finite number`);
+        }
+        playsByAgeBand.set(ageBand as AgeBand, plays as number);
+      }
+    }
+
+    return {
+      ...(input as unknown as Game),
+      minAgeBand: this.checkEnum(AgeBand, input.minAgeBand, `${path}.minAgeBand`, errors),
+      creationDate: this.toDate(input.creationDate, `${path}.creationDate`, errors),
+      releaseDate: this.toDate(input.releaseDate, `${path}.releaseDate`, errors),
+      genreVector: this.toGenreVector(input.genreVector, `${path}.genreVector`, errors),
+      features: new Set(
+        this.toEnumArray(GameFeature, input.features, `${path}.features`, errors)
+      ),
+      supportedPlatforms: new Set(
+        this.toEnumArray(Platform, input.supportedPlatforms, `${path}.supportedPlatforms`, errors)
+      ),
+      playsByAgeBand,
+    };
+  }
+
+  private toSession(
+    input: unknown,
+    path: string,
+    gameIds: Set<GameId>,
+    errors: string[]
+  ): LoggedSession {
+    if (!this.isObject(input)) {
+      errors.push(`${path} must be an object`);
+      return {} as LoggedSession;
+    }
+
+    if (typeof input.sessionId !== 'string') {
+      errors.push(`${path}.sessionId must be a string`);
+    }
+
+    const context = this.isObject(input.userContext) ? input.userContext : {};
+    if (!this.isObject(input.userContext)) {
+      errors.push(`${path}.userContext must be an object`);
+    } else if (typeof context.userId !== 'string') {
+      errors.push(`${path}.userContext.userId must be a string`);
+    }
+
+    const history = this.isObject(input.userHistory) ? input.userHistory : {};
+    if (!this.isObject(input.userHistory)) {
+      errors.push(`${path}.userHistory must be an object`);
+    }
+
+    const candidates = this.toIdArray(input.candidates, `${path}.candidates`, errors);
+    for (const gameId of candidates) {
+      if (!gameIds.has(gameId)) {
+        errors.push(`${path}.candidates references unknown game ${gameId}`);
+      }
+    }
+
+    return {
+      sessionId: input.sessionId as string,
+      asOf: this.toDate(input.asOf, `${path}.asOf`, errors),
+      userContext: {
+        userId: context.userId as string,
+        ageBand: this.checkEnum(AgeBand, context.ageBand, `${path}.userContext.ageBand`, errors),
+        platform: this.checkEnum(
+          Platform,
+          context.platform,
+          `${path}.userContext.platform`,
+          errors
+        ),
+        genreVector: this.toGenreVector(
+          context.genreVector,
+          `${path}.userContext.genreVector`,
+          errors
+        ),
+      },
+      userHistory: {
+        longPlayGames: this.toIdArray(
+          history.longPlayGames ?? [],
+          `${path}.userHistory.longPlayGames`,
+          errors
+        ),
+        likedGames: this.toIdArray(
+          history.likedGames ?? [],
+          `${path}.userHistory.likedGames`,
+          errors
+        ),
+        favouritedGames: this.toIdArray(
+          history.favouritedGames ?? [],
+          `${path}.userHistory.favouritedGames`,
+          errors
+        ),
+        heavilyPlayed: new Set(
+          this.toIdArray(
+            history.heavilyPlayed ?? [],
+            `${path}.userHistory.heavilyPlayed`,
+            errors
+          )
+        ),
+        dismissedGames: this.toDateMap(
+          history.dismissedGames ?? {},
+          `${path}.userHistory.dismissedGames`,
+          errors
+        ),
+        dismissedGenres: new Map(
+          [
+            ...this.toDateMap(
+              history.dismissedGenres ?? {},
+              `${path}.userHistory.dismissedGenres`,
+              errors
+            ),
+          ].map(([genreId, dismissedAt]) => [Number(genreId), dismissedAt])
+        ),
+      },
+      candidates,
+      played: this.toIdArray(input.played, `${path}.played`, errors),
+    };
+  }
+
+  /**
+   * Genre vectors are written as { "<genreId>": weight }
+   */
+  private toGenreVector(input: unknown, path: string, errors: string[]): GenreVector {
+    const vector: GenreVector = new Map();
+
+    if (!this.isObject(input)) {
+      errors.push(`${path} must be an object`);
+      return vector;
+    }
+
+    for (const [genreId, weight] of Object.entries(input)) {
+      if (!Number.isInteger(Number(genreId))) {
+        errors.push(`${path} key "${genreId}" must be a genre ID`);
+      }
+      if (!Number.isFinite(weight)) {
+        errors.push(`${path}.${genreId} must be a finite number`);
+      }
+      vector.set(Number(genreId), weight as number);
+    }
+
+    return vector;
+  }
+
+  /**
+   * Dismissals are written as { "<id>": "<ISO 8601 date>" }
+   */
+  private toDateMap(input: unknown, path: string, errors: string[]): Map<string, Date> {
+    const dates = new Map<string, Date>();
+
+    if (!this.isObject(input)) {
+      errors.push(`${path} must be an object`);
+      return dates;
+    }
+
+    for (const [id, value] of Object.entries(input)) {
+      dates.set(id, this.toDate(value, `${path}.${id}`, errors));
+    }
+
+    return dates;
+  }
+
+  private toDate(input: unknown, path: string, errors: string[]): Date {
+    const date = new Date(typeof input === 'string' ? input : NaN);
+
+    if (Number.isNaN(date.getTime())) {
+      errors.push(`${path} must be an ISO 8601 date`);
+    }
+
+    return date;
+  }
+
+  private toIdArray(input: unknown, path: string, errors: string[]): GameId[] {
+    if (!Array.isArray(input) || !input.every((id) => typeof id === 'string')) {
+      errors.push(`${path} must be an array of game IDs`);
+      return [];
+    }
+
+    return input;
+  }
+
+  private toEnumArray<T extends string>(
+    values: Record<string, T>,
+    input: unknown,
+    path: string,
+    errors: string[]
+  ): T[] {
+    if (!Array.isArray(input)) {
+      errors.push(`${path} must be an array`);
+      return [];
+    }
+
+    return input.map((value, index) => this.checkEnum(values, value, `${path}[${index}]`, errors));
+  }
+
+  private checkEnum<T extends string>(
+    values: Record<string, T>,
+    input: unknown,
+    path: string,
+    errors: string[]
+  ): T {
+    const allowed: string[] = Object.values(values);
+
+    if (typeof input !== 'string' || !allowed.includes(input)) {
+      errors.push(`${path} must be one of ${allowed.join(', ')}`);
+    }
+
+    return input as T;
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
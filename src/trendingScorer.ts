@@ -0,0 +1,97 @@
+/**
+ * Trending Score Module
+ *
+ * Statistically robust growth score for trending charts. Guards against
+ * botted or brand-new games dominating through tiny baselines or spikes.
+ */
+
+import { WindowedMetrics } from './chartGenerator';
+
+/**
+ * Options for trending scores
+ */
+export interface TrendingScorerOptions {
+  priorPlays: number; // Pseudo-plays added to both windows to smooth growth
+  minUniquePlayers: number; // Games below this in the window are not ranked
+  spikeThreshold: number; // Standard deviations above history that count as a spike
+  minHistoryWindows: number; // History needed before spikes are detected
+}
+
+const DEFAULT_TRENDING_SCORER_OPTIONS: TrendingScorerOptions = {
+  priorPlays: 50,
+  minUniquePlayers: 25,
+  spikeThreshold: 4,
+  minHistoryWindows: 3,
+};
+
+/**
+ * Trending score for one game
+ */
+export interface TrendingScore {
+  score: number;
+  damped: boolean; // Plays were capped as an anomalous spike
+}
+
+/**
+ * Computes smoothed, spike-damped growth scores
+ */
+export class TrendingScorer {
+  private options: TrendingScorerOptions;
+
+  constructor(options: Partial<TrendingScorerOptions> = {}) {
+    this.options = {
+      priorPlays: options.priorPlays ?? DEFAULT_TRENDING_SCORER_OPTIONS.priorPlays,
+      minUniquePlayers:
+        options.minUniquePlayers ?? DEFAULT_TRENDING_SCORER_OPTIONS.minUniquePlayers,
+      spikeThreshold:
+        options.spikeThreshold ?? DEFAULT_TRENDING_SCORER_OPTIONS.spikeThreshold,
+      minHistoryWindows:
+        options.minHistoryWindows ?? DEFAULT_TRENDING_SCORER_OPTIONS.minHistoryWindows,
+    };
+  }
+
+  /**
+   * Score a game's growth, or return null if it has too few players to rank
+   *
+   * Growth is the log ratio of smoothed plays, so 1 → 50 plays is modest
+   * growth rather than 4900%, and a game with no previous plays is scored
+   * on the same scale as every other game.
+   */
+  score(metrics: WindowedMetrics): TrendingScore | null {
+    if (metrics.uniquePlayers < this.options.minUniquePlayers) {
+      return null;
+    }
+
+    const { plays, damped } = this.dampSpike(metrics);
+    const prior = this.options.priorPlays;
+    const score = Math.log((plays + prior) / (metrics.previousPlays + prior));
+
+    return { score, damped };
+  }
+
+  /**
+   * Cap plays that are far above the game's own history
+   * History is the previous window plus any older windows provided
+   */
+  private dampSpike(metrics: WindowedMetrics): { plays: number; damped: boolean } {
+    const history = [...(metrics.historicalPlays ?? []), metrics.previousPlays];
+
+    if (history.length < this.options.minHistoryWindows) {
+      return { plays: metrics.plays, damped: false };
+    }
+
+    const mean = history.reduce((sum, value) => sum + value, 0) / history.length;
+    const variance =
+      history.reduce((sum, value) => sum + (value - mean) ** 2, 0) / history.length;
+
+    // Poisson floor so flat histories do not make every change a spike
+    const deviation = Math.max(Math.sqrt(variance), Math.sqrt(mean), 1);
+    const ceiling = mean + this.options.spikeThreshold * deviation;
+
+    if (metrics.plays <= ceiling) {
+      return { plays: metrics.plays, damped: false };
+    }
+
+    return { plays: ceiling, damped: true };
+  }
+}
@@ -42,6 +42,17 @@ export interface UserContext {
   genreVector: GenreVector;
 }
 
+/**
+ * Guardian-controlled restrictions for a specific child account
+ * Every field can only remove games; omitted fields add no restriction
+ */
+export interface GuardianPolicy {
+  blockedFeatures?: Set<GameFeature>;
+  blockedGenres?: Set<GenreId>;
+  blockedGames?: Set<GameId>;
+  lowIntensityOnly?: boolean;
+}
+
 /**
  * User history aggregates
  */
@@ -50,6 +61,8 @@ export interface UserHistory {
   likedGames: GameId[];
   favouritedGames: GameId[];
   heavilyPlayed: Set<GameId>;
+  dismissedGames?: Map<GameId, Date>; // "Not interested", by when dismissed
+  dismissedGenres?: Map<GenreId, Date>;
 }
 
 /**
@@ -65,6 +78,7 @@ export interface Game {
   sponsoredAmount: number; // Amount spent on sponsorship in dollars
   genreVector: GenreVector;
   features: Set<GameFeature>;
+  supportedPlatforms: Set<Platform>;
   playsByAgeBand: Map<AgeBand, number>;
   totalSessions: number;
   uniquePlayers: number;
@@ -76,23 +90,23 @@ export interface Game {
   totalPlays: number;
 }
 
+/**
+ * Identifier of a scoring signal (e.g. genreAffinity)
+ */
+export type SignalId = string;
+
+/**
+ * Raw value of each registered scoring signal, keyed by signal ID
+ */
+export type ScoreBreakdown = Record<SignalId, number>;
+
 /**
  * Scored game with breakdown
  */
 export interface ScoredGame {
   game: Game;
   score: number;
-  breakdown: {
-    genreAffinity: number;
-    ageBandPopularity: number;
-    engagementSimilarity: number;
-    favouriteAffinity: number;
-    communityRating: number;
-    recencyBoost: number;
-    sponsoredBoost: number;
-    repetitionPenalty: number;
-    creationRecencyPenalty: number;
-  };
+  breakdown: ScoreBreakdown;
 }
 
 /**
@@ -115,6 +129,27 @@ export enum ChartType {
   TOP_EARNING = 'TOP_EARNING',
   TOP_RATED = 'TOP_RATED',
   TRENDING_IN_GENRE = 'TRENDING_IN_GENRE',
+  TOP_ON_PLATFORM = 'TOP_ON_PLATFORM',
+}
+
+/**
+ * Time window a chart is computed over, ending now
+ */
+export interface ChartWindow {
+  id: string; // Stable identifier, e.g. '7d'
+  durationMs: number;
+}
+
+/**
+ * Identifies one chart: type, audience and (for genre charts) genre
+ * Windowed charts use their default window when none is given
+ */
+export interface ChartKey {
+  chartType: ChartType;
+  ageBand: AgeBand;
+  platform: Platform;
+  genreId?: GenreId;
+  window?: ChartWindow;
 }
 
 /**
@@ -124,23 +159,73 @@ export interface ChartEntry {
   gameId: GameId;
   score: number;
   rank: number;
+  flags?: ChartEntryFlag[]; // Set when the entry needs trust & safety review
+  movement?: ChartMovement; // Set when chart history is recorded
+}
+
+/**
+ * Movement of a chart entry relative to the previous recorded period
+ */
+export interface ChartMovement {
+  previousRank: number | null; // Null if not on the chart last period
+  rankDelta: number | null; // Positive when the game moved up
+  isNewEntry: boolean; // First time on this chart
+  isReEntry: boolean; // Back on the chart after dropping off
+  peakRank: number; // Best rank ever held on this chart
+  periodsOnChart: number; // Consecutive periods, including this one
+}
+
+/**
+ * Review flags attached to chart entries
+ */
+export enum ChartEntryFlag {
+  SPIKE_DAMPED = 'SPIKE_DAMPED', // Plays were capped as an anomalous spike
+}
+
+/**
+ * Estimators for turning likes and dislikes into a rating
+ */
+export enum RatingEstimator {
+  LOG_CONFIDENCE = 'LOG_CONFIDENCE', // (likes - dislikes) / total, scaled by log volume
+  WILSON_LOWER_BOUND = 'WILSON_LOWER_BOUND', // Lower bound of the like rate's confidence interval
+  BAYESIAN_AVERAGE = 'BAYESIAN_AVERAGE', // Like rate shrunk towards a prior
+}
+
+/**
+ * Prior for the Bayesian average, expressed as pseudo-reactions
+ */
+export interface RatingPrior {
+  likeRate: number; // Expected share of likes, 0-1
+  strength: number; // Number of pseudo-reactions the prior is worth
+}
+
+/**
+ * Rating configuration
+ * Priors are looked up by the game's dominant genre, then by age band,
+ * then fall back to the default prior
+ */
+export interface RatingConfig {
+  estimator: RatingEstimator;
+  wilsonZ: number; // z-score of the Wilson interval (1.96 = 95%)
+  defaultPrior: RatingPrior;
+  priorsByGenre?: Record<GenreId, RatingPrior>;
+  priorsByAgeBand?: Partial<Record<AgeBand, RatingPrior>>;
+}
+
+/**
+ * "Not interested" handling
+ * A dismissal is strongest when made and fades linearly to nothing at expiry
+ */
+export interface DismissalConfig {
+  expiryDays: number; // Days until a dismissal no longer applies
+  genreVectorDamping: number; // Share of a dismissed genre's vector weight removed at full strength, 0-1
 }
 
 /**
  * Configuration for the recommendation engine
  */
 export interface RecommendationConfig {
-  weights: {
-    genreAffinity: number;
-    ageBandPopularity: number;
-    engagementSimilarity: number;
-    favouriteAffinity: number;
-    communityRating: number;
-    recencyBoost: number;
-    sponsoredBoost: number;
-    repetitionPenalty: number;
-    creationRecencyPenalty: number;
-  };
+  weights: Record<SignalId, number>; // Per registered signal; missing weights count as 0
   moderationThreshold: number;
   recencyDecayDays: number;
   creationGracePeriodDays: number; // Days before creation penalty starts to decay
@@ -155,4 +240,6 @@ export interface RecommendationConfig {
     requireLowIntensity: boolean;
     avoidAllMultiplayer: boolean;
   };
+  rating: RatingConfig; // Used for communityRating and the Top Rated chart
+  dismissals: DismissalConfig;
 }
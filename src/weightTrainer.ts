@@ -0,0 +1,384 @@
+/**
+ * Weight Training Module
+ *
+ * Fits scoring weights offline from logged impressions. Each impression is a
+ * score breakdown with a played/clicked label; an L2-regularised logistic
+ * regression over the signals gives one weight per signal, rescaled to the
+ * base config's scale so learned and hand-tuned weights can be mixed.
+ */
+
+import { ConfigLoader, ConfigPatch, mergeConfig } from './configLoader';
+import { hashToUnitInterval } from './experiments';
+import {
+  SignalRegistry,
+  ScoringSignal,
+  SignalKind,
+  BuiltInSignal,
+  createDefaultSignalRegistry,
+} from './scoringSignals';
+import { ScoreBreakdown, SignalId, RecommendationConfig } from './types';
+
+/**
+ * A scored game shown to a user, and whether they engaged with it
+ */
+export interface LoggedImpression {
+  sessionId: string; // Groups impressions for the held-out split and NDCG
+  breakdown: ScoreBreakdown;
+  label: boolean; // Clicked or played
+}
+
+export interface WeightTrainerOptions {
+  l2: number; // Regularisation strength
+  learningRate: number;
+  iterations: number;
+  holdoutShare: number; // Share of sessions held out for metrics, 0 to 1
+  holdoutSalt: string; // Change it to draw a different held-out split
+  maxWeights: Record<SignalId, number>; // Upper bounds on the config scale; see getSponsoredCap
+}
+
+const DEFAULT_WEIGHT_TRAINER_OPTIONS: WeightTrainerOptions = {
+  l2: 0.01,
+  learningRate: 0.5,
+  iterations: 500,
+  holdoutShare: 0.2,
+  holdoutSalt: 'weight-trainer',
+  maxWeights: {},
+};
+
+/**
+ * Ranking quality of one set of weights
+ */
+export interface RankingMetrics {
+  auc: number; // Chance a positive outranks a negative
+  ndcg: number; // Mean per-session NDCG over all impressions
+}
+
+/**
+ * Held-out metrics for the learned and current weights
+ */
+export interface TrainingMetrics {
+  trainImpressions: number;
+  heldOutImpressions: number;
+  heldOutLogLoss: number; // Fitted model before rescaling; current weights are not calibrated
+  learned: RankingMetrics;
+  baseline: RankingMetrics;
+}
+
+export interface TrainingResult {
+  patch: ConfigPatch; // Weights only; apply with updateConfig or mergeConfig
+  config: RecommendationConfig; // Base config with the patch applied, validated
+  untrainedSignals: SignalId[]; // Constant in the training data; weights left unchanged
+  metrics: TrainingMetrics;
+}
+
+/**
+ * Impression as a signed feature vector
+ * Penalties are negated, so every weight is constrained to be non-negative
+ * and a penalty can never turn into a boost
+ */
+interface Example {
+  sessionId: string;
+  features: number[];
+  label: number;
+}
+
+/**
+ * Fits scoring weights from logged impressions
+ */
+export class WeightTrainer {
+  private options: WeightTrainerOptions;
+
+  constructor(
+    private baseConfig: RecommendationConfig,
+    options: Partial<WeightTrainerOptions> = {},
+    private signalRegistry: SignalRegistry = createDefaultSignalRegistry()
+  ) {
+    this.options = {
+      l2: options.l2 ?? DEFAULT_WEIGHT_TRAINER_OPTIONS.l2,
+      learningRate: options.learningRate ?? DEFAULT_WEIGHT_TRAINER_OPTIONS.learningRate,
+      iterations: options.iterations ?? DEFAULT_WEIGHT_TRAINER_OPTIONS.iterations,
+      holdoutShare: options.holdoutShare ?? DEFAULT_WEIGHT_TRAINER_OPTIONS.holdoutShare,
+      holdoutSalt: options.holdoutSalt ?? DEFAULT_WEIGHT_TRAINER_OPTIONS.holdoutSalt,
+      maxWeights: options.maxWeights ?? DEFAULT_WEIGHT_TRAINER_OPTIONS.maxWeights,
+    };
+  }
+
+  /**
+   * Fit weights on the training sessions and score them on the held-out ones
+   */
+  train(impressions: LoggedImpression[]): TrainingResult {
+    const signals = this.signalRegistry.getAll();
+    const examples = impressions.map((impression) => ({
+      sessionId: impression.sessionId,
+      features: signals.map((signal) => {
+        const value = impression.breakdown[signal.id] ?? 0;
+        return signal.kind === SignalKind.PENALTY ? -value : value;
+      }),
+      label: impression.label ? 1 : 0,
+    }));
+
+    const train = examples.filter((example) => !this.isHeldOut(example.sessionId));
+    const heldOut = examples.filter((example) => this.isHeldOut(example.sessionId));
+
+    if (!train.some((e) => e.label === 1) || !train.some((e) => e.label === 0)) {
+      throw new Error('Training impressions need both positive and negative labels');
+    }
+
+    const { weights: fitted, bias, trained } = this.fit(train, signals.length);
+    const weights = this.toConfigScale(signals, fitted, trained);
+
+    const patchWeights: Record<SignalId, number> = {};
+    const untrainedSignals: SignalId[] = [];
+    signals.forEach((signal, j) => {
+      if (trained[j]) {
+        patchWeights[signal.id] = weights[j];
+      } else {
+        untrainedSignals.push(signal.id);
+      }
+    });
+
+    const patch: ConfigPatch = { weights: patchWeights };
+    const config = new ConfigLoader().validate(mergeConfig(this.baseConfig, patch));
+    const baselineWeights = signals.map((signal) => this.baseConfig.weights[signal.id] ?? 0);
+
+    return {
+      patch,
+      config,
+      untrainedSignals,
+      metrics: {
+        trainImpressions: train.length,
+        heldOutImpressions: heldOut.length,
+        heldOutLogLoss: this.logLoss(heldOut, fitted, bias),
+        learned: this.rankingMetrics(heldOut, weights),
+        baseline: this.rankingMetrics(heldOut, baselineWeights),
+      },
+    };
+  }
+
+  /**
+   * Projected gradient descent on standardised features
+   * Each step is clipped back to non-negative weights.
+   * Signals that never vary cannot be learned and are left out.
+   */
+  private fit(
+    examples: Example[],
+    dimensions: number
+  ): { weights: number[]; bias: number; trained: boolean[] } {
+    const means = new Array<number>(dimensions).fill(0);
+    const scales = new Array<number>(dimensions).fill(0);
+
+    for (let j = 0; j < dimensions; j++) {
+      const values = examples.map((example) => example.features[j]);
+      means[j] = values.reduce((sum, value) => sum + value, 0) / values.length;
+      const variance =
+        values.reduce((sum, value) => sum + (value - means[j]) ** 2, 0) / values.length;
+      scales[j] = Math.sqrt(variance);
+    }
+
+    const trained = scales.map((scale) => scale > 0);
+    const standardised = examples.map((example) =>
+      example.features.map((value, j) => (trained[j] ? (value - means[j]) / scales[j] : 0))
+    );
+
+    // Weights on the standardised scale: w_raw = w_scaled / scale
+    const scaled = new Array<number>(dimensions).fill(0);
+    let bias = 0;
+
+    for (let iteration = 0; iteration < this.options.iterations; iteration++) {
+      const gradient = new Array<number>(dimensions).fill(0);
+      let biasGradient = 0;
+
+      examples.forEach((example, i) => {
+        const error = this.sigmoid(bias + this.dot(scaled, standardised[i])) - example.label;
+        biasGradient += error;
+        for (let j = 0; j < dimensions; j++) {
+          gradient[j] += error * standardised[i][j];
+        }
+      });
+
+      bias -= (this.options.learningRate * biasGradient) / examples.length;
+      for (let j = 0; j < dimensions; j++) {
+        if (!trained[j]) {
+          continue;
+        }
+
+        const step = gradient[j] / examples.length + this.options.l2 * scaled[j];
+        scaled[j] = Math.max(scaled[j] - this.options.learningRate * step, 0);
+      }
+    }
+
+    const weights = scaled.map((weight, j) => (trained[j] ? weight / scales[j] : 0));
+
+    return {
+      weights,
+      bias: bias - this.dot(weights, means),
+      trained,
+    };
+  }
+
+  /**
+   * Put fitted weights on the base config's scale and apply caps
+   * Trained signals are scaled to keep their base total weight; untrained
+   * signals keep their base weights and are left out of the patch.
+   */
+  private toConfigScale(
+    signals: ScoringSignal[],
+    fitted: number[],
+    trained: boolean[]
+  ): number[] {
+    const base = signals.map((signal) => this.baseConfig.weights[signal.id] ?? 0);
+    const baseTotal = this.sum(base.filter((_, j) => trained[j]));
+    const fittedTotal = this.sum(fitted);
+    const factor = fittedTotal > 0 ? baseTotal / fittedTotal : 1;
+
+    const weights = signals.map((signal, j) =>
+      trained[j]
+        ? Math.min(fitted[j] * factor, this.options.maxWeights[signal.id] ?? Infinity)
+        : base[j]
+    );
+
+    const sponsored = signals.findIndex((signal) => signal.id === BuiltInSignal.SPONSORED_BOOST);
+    if (sponsored >= 0 && trained[sponsored]) {
+      weights[sponsored] = Math.min(
+        weights[sponsored],
+        this.getSponsoredCap(signals, base, weights, sponsored)
+      );
+    }
+
+    return weights;
+  }
+
+  /**
+   * Upper bound for the sponsored weight
+   * Unless capped explicitly, sponsoredBoost may not take a larger share of
+   * the boost weights than it has in the base config
+   */
+  private getSponsoredCap(
+    signals: ScoringSignal[],
+    base: number[],
+    weights: number[],
+    sponsored: number
+  ): number {
+    if (this.options.maxWeights[BuiltInSignal.SPONSORED_BOOST] !== undefined) {
+      return Infinity; // Already applied
+    }
+
+    const isBoost = signals.map((signal) => signal.kind === SignalKind.BOOST);
+    const baseBoosts = this.sum(base.filter((_, j) => isBoost[j]));
+    const baseShare = baseBoosts > 0 ? base[sponsored] / baseBoosts : 0;
+    if (baseShare >= 1) {
+      return Infinity;
+    }
+
+    const otherBoosts = this.sum(weights.filter((_, j) => isBoost[j] && j !== sponsored));
+    return (baseShare * otherBoosts) / (1 - baseShare);
+  }
+
+  private isHeldOut(sessionId: string): boolean {
+    return hashToUnitInterval(sessionId, this.options.holdoutSalt) < this.options.holdoutShare;
+  }
+
+  private logLoss(examples: Example[], weights: number[], bias: number): number {
+    if (examples.length === 0) {
+      return 0;
+    }
+
+    const epsilon = 1e-12;
+    let total = 0;
+    for (const example of examples) {
+      const p = this.sigmoid(bias + this.dot(weights, example.features));
+      total -=
+        example.label * Math.log(p + epsilon) +
+        (1 - example.label) * Math.log(1 - p + epsilon);
+    }
+
+    return total / examples.length;
+  }
+
+  private rankingMetrics(examples: Example[], weights: number[]): RankingMetrics {
+    const scored = examples.map((example) => ({
+      sessionId: example.sessionId,
+      score: this.dot(weights, example.features),
+      label: example.label,
+    }));
+
+    return { auc: this.auc(scored), ndcg: this.meanNdcg(scored) };
+  }
+
+  /**
+   * Share of positive/negative pairs ranked correctly; ties count half
+   */
+  private auc(scored: Array<{ score: number; label: number }>): number {
+    const positives = scored.filter((item) => item.label === 1);
+    const negatives = scored.filter((item) => item.label === 0);
+
+    if (positives.length === 0 || negatives.length === 0) {
+      return 0;
+    }
+
+    let correct = 0;
+    for (const positive of positives) {
+      for (const negative of negatives) {
+        if (positive.score > negative.score) {
+          correct += 1;
+        } else if (positive.score === negative.score) {
+          correct += 0.5;
+        }
+      }
+    }
+
+    return correct / (positives.length * negatives.length);
+  }
+
+  /**
+   * NDCG of each session's impressions re-ranked by score
+   * Sessions without a positive label are skipped
+   */
+  private meanNdcg(
+    scored: Array<{ sessionId: string; score: number; label: number }>
+  ): number {
+    const sessions = new Map<string, Array<{ score: number; label: number }>>();
+    for (const item of scored) {
+      const session = sessions.get(item.sessionId) ?? [];
+      session.push(item);
+      sessions.set(item.sessionId, session);
+    }
+
+    let total = 0;
+    let count = 0;
+    for (const items of sessions.values()) {
+      const positives = items.filter((item) => item.label === 1).length;
+      if (positives === 0) {
+        continue;
+      }
+
+      const ranked = [...items].sort((a, b) => b.score - a.score);
+      let dcg = 0;
+      ranked.forEach((item, index) => {
+        dcg += item.label / Math.log2(index + 2);
+      });
+
+      let idcg = 0;
+      for (let index = 0; index < positives; index++) {
+        idcg += 1 / Math.log2(index + 2);
+      }
+
+      total += dcg / idcg;
+      count++;
+    }
+
+    return count > 0 ? total / count : 0;
+  }
+
+  private sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+  }
+
+  private dot(weights: number[], features: number[]): number {
+    return weights.reduce((sum, weight, j) => sum + weight * features[j], 0);
+  }
+
+  private sigmoid(z: number): number {
+    return 1 / (1 + Math.exp(-z));
+  }
+}